@@ -15,6 +15,13 @@ const DEFAULT_SETTINGS: Record<string, any> = {
   tokenizePlaceholders: true,
   placeholderPrefix: '\uE000',
   placeholderSuffix: '\uE001',
+  placeholderStyle: 'opaque',
+  fpeCategories: [],
+  categoryOperators: {},
+  blockCategories: [],
+  auditMode: false,
+  egressScan: 'off',
+  conversationSessions: false,
 };
 
 let dbInstance: Database.Database | null = null;
@@ -57,13 +64,26 @@ export function initializeSchema(db: Database.Database): void {
       id              TEXT PRIMARY KEY,
       term            TEXT NOT NULL,
       replacement     TEXT,
+      reversible      INTEGER NOT NULL DEFAULT 1,
       case_sensitive  INTEGER NOT NULL DEFAULT 0,
       whole_word      INTEGER NOT NULL DEFAULT 0,
       enabled         INTEGER NOT NULL DEFAULT 1,
       created_at      TEXT NOT NULL
     );
+
+    CREATE TABLE IF NOT EXISTS providers (
+      id          TEXT PRIMARY KEY,
+      data        TEXT NOT NULL,
+      updated_at  TEXT NOT NULL
+    );
   `);
 
+  // Columns added since the table was created; CREATE TABLE IF NOT EXISTS leaves older tables as they were
+  const dictionaryColumns = (db.prepare('PRAGMA table_info(dictionary)').all() as { name: string }[]).map(c => c.name);
+  if (!dictionaryColumns.includes('reversible')) {
+    db.exec('ALTER TABLE dictionary ADD COLUMN reversible INTEGER NOT NULL DEFAULT 1');
+  }
+
   const insert = db.prepare(
     'INSERT OR IGNORE INTO settings (key, value, updated_at) VALUES (?, ?, ?)'
   );
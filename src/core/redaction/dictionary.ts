@@ -1,10 +1,13 @@
 import type { DictionaryEntry, PIIDetection } from '../types.js';
 import type { SqliteDatabase } from '../database.js';
+import type { FixedPlaceholder } from './tokenizer.js';
 
 export interface DictionaryRedactResult {
   text: string;
   tokens: Map<string, string>;
   detections: PIIDetection[];
+  /** Tokens of entries with a `replacement`, and the text to use instead of a placeholder */
+  replacements: Map<string, FixedPlaceholder>;
 }
 
 export class DictionaryService {
@@ -35,6 +38,7 @@ export class DictionaryService {
         id: row.id,
         term: row.term,
         replacement: row.replacement || undefined,
+        reversible: row.reversible !== 0,
         caseSensitive: row.case_sensitive === 1,
         wholeWord: row.whole_word === 1,
         enabled: row.enabled === 1,
@@ -57,11 +61,12 @@ export class DictionaryService {
   async add(entries: DictionaryEntry[]): Promise<void> {
     if (this.db) {
       const stmt = this.db.prepare(
-        `INSERT INTO dictionary (id, term, replacement, case_sensitive, whole_word, enabled, created_at)
-         VALUES (?, ?, ?, ?, ?, ?, ?)
+        `INSERT INTO dictionary (id, term, replacement, reversible, case_sensitive, whole_word, enabled, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)
          ON CONFLICT(id) DO UPDATE SET
            term = excluded.term,
            replacement = excluded.replacement,
+           reversible = excluded.reversible,
            case_sensitive = excluded.case_sensitive,
            whole_word = excluded.whole_word,
            enabled = excluded.enabled`
@@ -72,6 +77,7 @@ export class DictionaryService {
             entry.id,
             entry.term,
             entry.replacement || null,
+            entry.reversible === false ? 0 : 1,
             entry.caseSensitive ? 1 : 0,
             entry.wholeWord ? 1 : 0,
             entry.enabled ? 1 : 0,
@@ -165,11 +171,39 @@ export class DictionaryService {
   async redact(text: string, sessionId: string): Promise<DictionaryRedactResult> {
     const tokens = new Map<string, string>();
     const detections: PIIDetection[] = [];
+    const replacements = new Map<string, FixedPlaceholder>();
 
-    if (this.entries.size === 0) {
-      return { text, tokens, detections };
+    const matches = this.findMatches(text);
+    if (matches.length === 0) {
+      return { text, tokens, detections, replacements };
+    }
+
+    // Apply replacements back-to-front so indices remain valid
+    let result = text;
+    for (let i = matches.length - 1; i >= 0; i--) {
+      const m = matches[i];
+      const token = this.tokenizer(m.matched);
+      tokens.set(token, m.matched);
+      if (m.entry.replacement) {
+        replacements.set(token, { text: m.entry.replacement, reversible: m.entry.reversible ?? true });
+      }
+      detections.push(this.toDetection(m));
+      result = result.slice(0, m.start) + token + result.slice(m.end);
     }
 
+    return { text: result, tokens, detections, replacements };
+  }
+
+  /**
+   * Find dictionary terms in `text` without replacing them. Detections are in text order.
+   */
+  scan(text: string): PIIDetection[] {
+    return this.findMatches(text).map(m => this.toDetection(m));
+  }
+
+  private findMatches(text: string): { start: number; end: number; entry: DictionaryEntry; matched: string }[] {
+    if (this.entries.size === 0) return [];
+
     this.buildIndex();
 
     // Scan text left-to-right. At each position, check longest lengths first.
@@ -204,30 +238,18 @@ export class DictionaryService {
       }
     }
 
-    if (matches.length === 0) {
-      return { text, tokens, detections };
-    }
-
-    // Apply replacements back-to-front so indices remain valid
-    let result = text;
-    for (let i = matches.length - 1; i >= 0; i--) {
-      const m = matches[i];
-      const token = this.tokenizer(m.matched);
-      tokens.set(token, m.matched);
-
-      detections.push({
-        type: 'dictionary',
-        category: 'CUSTOM_DICTIONARY',
-        value: m.matched,
-        startIndex: m.start,
-        endIndex: m.end,
-        confidence: 1.0,
-      });
-
-      result = result.slice(0, m.start) + token + result.slice(m.end);
-    }
+    return matches;
+  }
 
-    return { text: result, tokens, detections };
+  private toDetection(m: { start: number; end: number; matched: string }): PIIDetection {
+    return {
+      type: 'dictionary',
+      category: 'CUSTOM_DICTIONARY',
+      value: m.matched,
+      startIndex: m.start,
+      endIndex: m.end,
+      confidence: 1.0,
+    };
   }
 
   size(): number {
@@ -0,0 +1,105 @@
+import type { PIIDetection } from '../types.js';
+
+/**
+ * What to do with PII found in a response that wasn't part of the session's originals:
+ * - `off`: don't scan responses
+ * - `annotate`: keep the value and mark it, e.g. `jane@example.com [unverified EMAIL]`
+ * - `mask`: replace the value with its category, e.g. `[EMAIL]`
+ * - `count`: leave the response unchanged and only count the detections
+ */
+export const EGRESS_MODES = ['off', 'annotate', 'mask', 'count'] as const;
+export type EgressMode = typeof EGRESS_MODES[number];
+
+/** Characters held back at the end of a stream so a value split across deltas is scanned whole */
+const STREAM_WINDOW = 100;
+
+/**
+ * Scans response text for PII that did not come from the session: values the model
+ * hallucinated or recalled rather than echoed back from the (rehydrated) request.
+ */
+export class EgressScanner {
+  private originals: Set<string>;
+
+  constructor(
+    private detect: (text: string) => PIIDetection[],
+    originals: Iterable<string>,
+    private mode: Exclude<EgressMode, 'off'>,
+    private onFindings: (findings: PIIDetection[]) => void = () => {}
+  ) {
+    this.originals = new Set([...originals].map(v => v.toLowerCase()));
+  }
+
+  /**
+   * Detections in `text` whose value isn't one of the session's originals (case-insensitive).
+   */
+  find(text: string): PIIDetection[] {
+    return this.detect(text).filter(d => !this.originals.has(d.value.toLowerCase()));
+  }
+
+  /**
+   * Scan a complete text and return it with the policy applied.
+   */
+  process(text: string): string {
+    return this.apply(text, this.find(text));
+  }
+
+  /**
+   * Report `findings` (non-overlapping, indexing into `text`) and apply the policy to them.
+   */
+  apply(text: string, findings: PIIDetection[]): string {
+    if (findings.length === 0) return text;
+    this.onFindings(findings);
+    if (this.mode === 'count') return text;
+
+    let result = text;
+    for (const f of [...findings].sort((a, b) => b.startIndex - a.startIndex)) {
+      const replacement = this.mode === 'mask' ? `[${f.category}]` : `${f.value} [unverified ${f.category}]`;
+      result = result.slice(0, f.startIndex) + replacement + result.slice(f.endIndex);
+    }
+    return result;
+  }
+
+  /**
+   * Incremental scanner for one stream of text, e.g. a content block's deltas.
+   */
+  stream(): EgressStream {
+    return new EgressStream(this);
+  }
+}
+
+/**
+ * Scans a stream of text as it arrives. The last few characters are held back until more
+ * text (or flush) shows whether they belong to a value; a value that crosses that point is
+ * held back whole.
+ */
+export class EgressStream {
+  private pending = '';
+
+  constructor(private scanner: EgressScanner) {}
+
+  push(text: string): string {
+    const buffer = this.pending + text;
+    let cut = buffer.length - STREAM_WINDOW;
+    if (cut <= 0) {
+      this.pending = buffer;
+      return '';
+    }
+
+    const findings = this.scanner.find(buffer);
+    const crossing = findings.find(f => f.startIndex < cut && f.endIndex > cut);
+    if (crossing) cut = crossing.startIndex;
+
+    this.pending = buffer.slice(cut);
+    return this.scanner.apply(buffer.slice(0, cut), findings.filter(f => f.endIndex <= cut));
+  }
+
+  flush(): string {
+    const rest = this.pending;
+    this.pending = '';
+    return this.scanner.process(rest);
+  }
+
+  hasPending(): boolean {
+    return this.pending.length > 0;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Format-preserving encryption (NIST SP 800-38G Rev. 1, FF3-1) for structured identifiers.
+ * The digits, upper-case letters and lower-case letters of a value are each encrypted as
+ * their own numeral string, so the result has the same length, separators and character
+ * classes as the input. The tweak is derived from the detection category, so a value
+ * decrypts with the key and its category alone, without a session store.
+ */
+
+import { createCipheriv, createHash } from 'crypto';
+
+const ROUNDS = 8;
+
+const ALPHABETS = ['0123456789', 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'];
+
+export class FF3Cipher {
+  private readonly key: Buffer;
+  private readonly tweakLeft: Buffer;
+  private readonly tweakRight: Buffer;
+  private readonly radix: bigint;
+  /** Shortest input with a domain of at least one million values */
+  readonly minLength: number;
+  readonly maxLength: number;
+
+  constructor(key: Buffer, tweak: Buffer, private readonly alphabet: string) {
+    if (![16, 24, 32].includes(key.length)) throw new Error('FF3-1 key must be 16, 24 or 32 bytes');
+    if (tweak.length !== 7) throw new Error('FF3-1 tweak must be 7 bytes');
+
+    // FF3-1 runs AES under the byte-reversed key
+    this.key = Buffer.from(key).reverse();
+    this.tweakLeft = Buffer.from([tweak[0], tweak[1], tweak[2], tweak[3] & 0xf0]);
+    this.tweakRight = Buffer.from([tweak[4], tweak[5], tweak[6], (tweak[3] & 0x0f) << 4]);
+    this.radix = BigInt(alphabet.length);
+
+    let length = 1;
+    while (this.radix ** BigInt(length) < 1_000_000n) length++;
+    this.minLength = length;
+    length = 1;
+    while (this.radix ** BigInt(length + 1) <= 2n ** 96n) length++;
+    this.maxLength = 2 * length;
+  }
+
+  encrypt(text: string): string {
+    this.checkLength(text);
+    const u = Math.ceil(text.length / 2);
+    let a = text.slice(0, u);
+    let b = text.slice(u);
+    for (let i = 0; i < ROUNDS; i++) {
+      const m = i % 2 === 0 ? u : text.length - u;
+      const c = (this.num(a) + this.roundValue(i, b)) % this.radix ** BigInt(m);
+      [a, b] = [b, this.str(c, m)];
+    }
+    return a + b;
+  }
+
+  decrypt(text: string): string {
+    this.checkLength(text);
+    const u = Math.ceil(text.length / 2);
+    let a = text.slice(0, u);
+    let b = text.slice(u);
+    for (let i = ROUNDS - 1; i >= 0; i--) {
+      const m = i % 2 === 0 ? u : text.length - u;
+      const modulus = this.radix ** BigInt(m);
+      const c = (((this.num(b) - this.roundValue(i, a)) % modulus) + modulus) % modulus;
+      [a, b] = [this.str(c, m), a];
+    }
+    return a + b;
+  }
+
+  private checkLength(text: string): void {
+    if (text.length < this.minLength || text.length > this.maxLength) {
+      throw new Error(`FF3-1 input must be ${this.minLength}-${this.maxLength} characters for radix ${this.alphabet.length}`);
+    }
+  }
+
+  /** The round function: AES over the tweak half, round number and the other half's numeral */
+  private roundValue(round: number, half: string): bigint {
+    const block = Buffer.alloc(16);
+    (round % 2 === 0 ? this.tweakRight : this.tweakLeft).copy(block);
+    block[3] ^= round;
+    let n = this.num(half);
+    for (let i = 15; i >= 4; i--) {
+      block[i] = Number(n & 0xffn);
+      n >>= 8n;
+    }
+
+    const cipher = createCipheriv(`aes-${this.key.length * 8}-ecb`, this.key, null);
+    cipher.setAutoPadding(false);
+    const output = Buffer.concat([cipher.update(block.reverse()), cipher.final()]).reverse();
+    return BigInt('0x' + output.toString('hex'));
+  }
+
+  /** Numeral value of the reversed string, i.e. the first character is least significant */
+  private num(text: string): bigint {
+    let n = 0n;
+    for (let i = text.length - 1; i >= 0; i--) {
+      n = n * this.radix + BigInt(this.alphabet.indexOf(text[i]));
+    }
+    return n;
+  }
+
+  /** Inverse of `num`: `length` characters, least significant first */
+  private str(n: bigint, length: number): string {
+    let text = '';
+    for (let i = 0; i < length; i++) {
+      text += this.alphabet[Number(n % this.radix)];
+      n /= this.radix;
+    }
+    return text;
+  }
+}
+
+/**
+ * Parse `FPE_KEY`: 32, 48 or 64 hex characters (an AES-128, -192 or -256 key). Returns
+ * null when unset and throws when malformed.
+ */
+export function parseFpeKey(hex: string | undefined): Buffer | null {
+  if (!hex) return null;
+  if (!/^(?:[0-9a-f]{32}|[0-9a-f]{48}|[0-9a-f]{64})$/i.test(hex)) {
+    throw new Error('FPE_KEY must be 32, 48 or 64 hex characters');
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+/** The 56-bit tweak for a category: the first 7 bytes of SHA-256 of its upper-cased name */
+export function categoryTweak(category: string): Buffer {
+  return createHash('sha256').update(category.toUpperCase()).digest().subarray(0, 7);
+}
+
+function transform(value: string, key: Buffer, category: string, direction: 'encrypt' | 'decrypt'): string {
+  const chars = [...value];
+  const tweak = categoryTweak(category);
+  for (const alphabet of ALPHABETS) {
+    const positions = chars.flatMap((ch, i) => (alphabet.includes(ch) ? [i] : []));
+    const cipher = new FF3Cipher(key, tweak, alphabet);
+    // Too few characters of a class for FF3-1's minimum domain: leave them as they are
+    if (positions.length < cipher.minLength || positions.length > cipher.maxLength) continue;
+
+    const output = cipher[direction](positions.map(i => chars[i]).join(''));
+    positions.forEach((pos, i) => { chars[pos] = output[i]; });
+  }
+  return chars.join('');
+}
+
+/**
+ * Encrypt `value` keeping its format. Character classes too short to encrypt are left
+ * unchanged, so a value can come back as it went in.
+ */
+export function encryptPreservingFormat(value: string, key: Buffer, category: string): string {
+  return transform(value, key, category, 'encrypt');
+}
+
+export function decryptPreservingFormat(value: string, key: Buffer, category: string): string {
+  return transform(value, key, category, 'decrypt');
+}
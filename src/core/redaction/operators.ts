@@ -0,0 +1,77 @@
+/**
+ * Per-category anonymization operators, configured by the `categoryOperators` setting:
+ * - `redact`: a placeholder in the configured style (the default)
+ * - `keep-domain`: replace an email's local part with a placeholder, keeping the domain
+ * - `mask`: replace every letter and digit but the last 4 with `*`
+ * - `hash`: the first 16 hex characters of HMAC-SHA256 (or SHA-256 without a key)
+ * - `truncate`: generalize a date to its year, or an IPv4 address to its /24 network
+ * - `drop`: remove the value
+ *
+ * `redact` and `keep-domain` are reversible. The others are one-way and are never stored
+ * for rehydration. An operator that does not apply to a value, such as `truncate` on a
+ * name, falls back to `redact`.
+ */
+
+import { createHash, createHmac } from 'crypto';
+
+export const OPERATORS = ['redact', 'keep-domain', 'mask', 'hash', 'truncate', 'drop'] as const;
+export type Operator = typeof OPERATORS[number];
+
+export const IRREVERSIBLE_OPERATORS: ReadonlySet<Operator> = new Set(['mask', 'hash', 'truncate', 'drop']);
+
+/** Keys of `categoryOperators`: a category name, or a glob with `*` and `?` */
+export const CATEGORY_GLOB_REGEX = /^[A-Z0-9_*?]{1,64}$/;
+
+const KEEP_LAST = 4;
+const HASH_LENGTH = 16;
+
+const globToRegExp = (glob: string): RegExp =>
+  new RegExp(`^${glob.replace(/\*/g, '.*').replace(/\?/g, '.')}$`);
+
+/**
+ * The operator for a category. An exact key wins over globs; otherwise the first glob
+ * that matches, in the order the keys were configured.
+ */
+export function resolveOperator(category: string, operators: Record<string, Operator>): Operator {
+  const upper = category.toUpperCase();
+  if (operators[upper]) return operators[upper];
+  for (const [key, operator] of Object.entries(operators)) {
+    if (/[*?]/.test(key) && globToRegExp(key).test(upper)) return operator;
+  }
+  return 'redact';
+}
+
+function mask(value: string): string {
+  let keep = (value.match(/[0-9A-Za-z]/g) ?? []).length - KEEP_LAST;
+  return value.replace(/[0-9A-Za-z]/g, ch => (keep-- > 0 ? '*' : ch));
+}
+
+function hash(value: string, key: string | null): string {
+  const digest = key ? createHmac('sha256', key).update(value) : createHash('sha256').update(value);
+  return digest.digest('hex').slice(0, HASH_LENGTH);
+}
+
+function truncate(value: string): string | null {
+  const ipv4 = value.match(/^(\d{1,3}\.\d{1,3}\.\d{1,3})\.\d{1,3}$/);
+  if (ipv4) return `${ipv4[1]}.0`;
+  return value.match(/(?<!\d)(1[89]\d{2}|20\d{2})(?!\d)/)?.[1] ?? null;
+}
+
+/**
+ * Apply a one-way operator to `value`. Returns null for `redact` and `keep-domain`, and
+ * when the operator does not apply to the value.
+ */
+export function applyIrreversibleOperator(operator: Operator, value: string, hashKey: string | null): string | null {
+  switch (operator) {
+    case 'mask':
+      return mask(value);
+    case 'hash':
+      return hash(value, hashKey);
+    case 'truncate':
+      return truncate(value);
+    case 'drop':
+      return '';
+    default:
+      return null;
+  }
+}
@@ -1,7 +1,7 @@
 import type { RedactionConfig, RedactionResult, PIIDetection } from '../types.js';
 import { DictionaryService } from './dictionary.js';
 import { DEFAULT_PATTERNS } from './regex-layer.js';
-import { Tokenizer } from './tokenizer.js';
+import { Tokenizer, type FixedPlaceholder } from './tokenizer.js';
 import { NamesLayer } from './names-layer.js';
 import { NERLayer } from './ner-layer.js';
 
@@ -27,10 +27,20 @@ export class RedactionPipeline {
     });
   }
 
-  async redact(text: string, sessionId: string, overrides?: Partial<RedactionConfig>): Promise<RedactionResult> {
+  /**
+   * Redact `text`. `sessionPlaceholders` maps the placeholders the session already uses to
+   * their originals, so values seen before keep their placeholder and typed counters continue.
+   */
+  async redact(
+    text: string,
+    sessionId: string,
+    overrides?: Partial<RedactionConfig>,
+    sessionPlaceholders: Map<string, string> = new Map()
+  ): Promise<RedactionResult> {
     const config = { ...this.getConfig(), ...overrides };
     const tokens = new Map<string, string>();
     const detections: PIIDetection[] = [];
+    const fixed = new Map<string, FixedPlaceholder>();
     let result = text;
 
     // LAYER 1: Dictionary (GUARANTEED - always runs first)
@@ -39,13 +49,16 @@ export class RedactionPipeline {
       for (const [token, original] of dictResult.tokens) {
         tokens.set(token, original);
       }
+      for (const [token, replacement] of dictResult.replacements) {
+        fixed.set(token, replacement);
+      }
       detections.push(...dictResult.detections);
       result = dictResult.text;
     }
 
     // LAYER 2: NER (probabilistic, context-aware — runs early for best accuracy on natural text)
     if (config.enableNER) {
-      const nerResult = await this.nerLayer.redact(result, config.nerModel, config.nerMinConfidence);
+      const nerResult = this.applyFilters(await this.nerLayer.redact(result, config.nerModel, config.nerMinConfidence), config);
       const newDetections = nerResult.detections.filter(
         d => !detections.some(existing =>
           existing.value === d.value && existing.category === d.category
@@ -60,7 +73,7 @@ export class RedactionPipeline {
 
     // LAYER 3: Regex (deterministic patterns)
     if (config.enableRegex) {
-      const regexResult = this.redactRegex(result, config.locale);
+      const regexResult = this.applyFilters(this.redactRegex(result, config.locale), config);
       for (const [token, original] of regexResult.tokens) {
         tokens.set(token, original);
       }
@@ -70,7 +83,7 @@ export class RedactionPipeline {
 
     // LAYER 4: Names (fast deterministic name detection)
     if (config.enableNames) {
-      const namesResult = this.namesLayer.redact(result);
+      const namesResult = this.applyFilters(this.namesLayer.redact(result), config);
       const newNameDetections = namesResult.detections.filter(
         d => !detections.some(existing =>
           existing.value === d.value && existing.category === d.category
@@ -90,14 +103,74 @@ export class RedactionPipeline {
       result = this.tokenizer.tokenize(result, tokens);
     }
 
+    // Layers work with internal PUA tokens; swap in the placeholders sent upstream
+    const assigned = this.tokenizer.assignPlaceholders(result, tokens, detections, sessionPlaceholders, {
+      style: config.placeholderStyle ?? 'opaque',
+      prefix: config.placeholderPrefix,
+      suffix: config.placeholderSuffix,
+      fpe: config.fpeKey && config.fpeCategories?.length ? { key: config.fpeKey, categories: config.fpeCategories } : undefined,
+      operators: config.categoryOperators,
+      hashKey: config.hashKey,
+    }, fixed);
+
     return {
-      redactedText: result,
-      tokens,
+      redactedText: assigned.text,
+      tokens: assigned.tokens,
       rehydrationKey: sessionId,
       detectedPII: detections
     };
   }
 
+  /**
+   * Find dictionary and regex PII in `text` without redacting it, e.g. to check a response
+   * for values the model produced itself. Detections don't overlap and index into `text`.
+   */
+  scan(text: string, overrides?: Partial<RedactionConfig>): PIIDetection[] {
+    const config = { ...this.getConfig(), ...overrides };
+    const detections: PIIDetection[] = config.enableDictionary ? this.dictionary.scan(text) : [];
+
+    if (config.enableRegex) {
+      // Dictionary matches win where a regex match overlaps them
+      for (const d of this.applyFilters(this.redactRegex(text, config.locale), config).detections) {
+        if (!detections.some(e => d.startIndex < e.endIndex && e.startIndex < d.endIndex)) {
+          detections.push(d);
+        }
+      }
+    }
+
+    return detections.sort((a, b) => a.startIndex - b.startIndex);
+  }
+
+  /**
+   * Drop a layer's detections that are below `minConfidence` or in `excludeCategories`,
+   * putting their original text back so later layers see it unchanged.
+   */
+  private applyFilters<T extends { text: string; tokens: Map<string, string>; detections: PIIDetection[] }>(
+    layerResult: T,
+    config: RedactionConfig
+  ): T {
+    const minConfidence = config.minConfidence ?? 0;
+    const excluded = new Set((config.excludeCategories ?? []).map(c => c.toUpperCase()));
+    if (minConfidence <= 0 && excluded.size === 0) return layerResult;
+
+    const kept = layerResult.detections.filter(d =>
+      d.confidence >= minConfidence && !excluded.has(d.category.toUpperCase())
+    );
+    if (kept.length === layerResult.detections.length) return layerResult;
+
+    const keptValues = new Set(kept.map(d => d.value));
+    const tokens = new Map<string, string>();
+    let text = layerResult.text;
+    for (const [token, original] of layerResult.tokens) {
+      if (keptValues.has(original)) {
+        tokens.set(token, original);
+      } else {
+        text = text.replaceAll(token, original);
+      }
+    }
+    return { ...layerResult, text, tokens, detections: kept };
+  }
+
   private redactRegex(text: string, locale?: string | null): { text: string; tokens: Map<string, string>; detections: PIIDetection[] } {
     const tokens = new Map<string, string>();
     const detections: PIIDetection[] = [];
@@ -106,11 +179,16 @@ export class RedactionPipeline {
       ? DEFAULT_PATTERNS.filter(p => !p.country || p.country.includes(locale))
       : DEFAULT_PATTERNS;
 
+    // Token IDs are hex, and patterns without a leading \b (e.g. phones) can match their digits
+    const tokenSpans = this.tokenizer.findTokenSpans(text);
+
     for (const pattern of patterns) {
       const matches = [...text.matchAll(pattern.pattern)];
 
       for (const match of matches) {
         const value = match[0];
+        const end = match.index! + value.length;
+        if (tokenSpans.some(([start, stop]) => match.index! < stop && start < end)) continue;
 
         let valid = true;
         if (pattern.validator) {
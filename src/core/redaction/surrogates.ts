@@ -0,0 +1,167 @@
+/**
+ * Realistic fake values ("surrogates") that stand in for detected PII. A surrogate has the
+ * same shape as the original, and where the category has a regex pattern it is generated
+ * until it matches that pattern and passes its validator (Luhn, TFN, IRD, NHS, ...), so
+ * the model sees well-formed data. Surrogates use reserved or test ranges where they exist:
+ * example.com emails, documentation IP ranges and test card prefixes.
+ */
+
+import { randomInt } from 'crypto';
+import { DEFAULT_PATTERNS } from './regex-layer.js';
+
+const FIRST_NAMES = [
+  'Alex', 'Jordan', 'Casey', 'Morgan', 'Riley', 'Jamie', 'Taylor', 'Quinn', 'Avery', 'Rowan',
+  'Harper', 'Elliot', 'Sasha', 'Robin', 'Parker', 'Reese', 'Emerson', 'Hayden', 'Kendall', 'Blair',
+];
+
+const LAST_NAMES = [
+  'Ashford', 'Bramley', 'Calloway', 'Dunmore', 'Ellery', 'Fairbank', 'Garrick', 'Hollis', 'Ingram', 'Kendrick',
+  'Lockwood', 'Marlowe', 'Northcott', 'Pembrook', 'Radley', 'Sterling', 'Thornbury', 'Underwood', 'Westbrook', 'Yardley',
+];
+
+const ORGANISATIONS = [
+  'Northwind Traders', 'Contoso Group', 'Fabrikam Holdings', 'Tailspin Logistics', 'Bluegum Analytics',
+  'Harbourline Partners', 'Kestrel Systems', 'Larkspur Foods', 'Meridian Works', 'Silverleaf Health',
+];
+
+const LOCATIONS = [
+  'Ashbury', 'Brookvale', 'Cedarton', 'Dunmore Heights', 'Elmsford', 'Fernhill', 'Glenrowan Park', 'Hillcrest',
+  'Kingsmere', 'Larchfield', 'Millbrook', 'Oakleigh Vale', 'Riverbend', 'Stonebridge', 'Westmere',
+];
+
+const STREET_NAMES = [
+  'Acacia', 'Banksia', 'Birch', 'Chestnut', 'Elm', 'Hawthorn', 'Juniper', 'Laurel', 'Maple', 'Myrtle',
+  'Oak', 'Rowan', 'Sycamore', 'Willow', 'Wattle',
+];
+
+/** Test-range prefixes by the card's first digit: Visa, Mastercard, Amex, Discover test numbers */
+const TEST_CARD_PREFIXES: Record<string, string> = { '3': '378282', '4': '411111', '5': '555555', '6': '601111' };
+
+/** Leading digits kept from the original (country and area codes) */
+const KEEP_LEADING_DIGITS: Record<string, number> = {
+  PHONE_AU: 3, PHONE_AU_MOBILE: 3, PHONE_NZ: 3, PHONE_NZ_MOBILE: 3,
+  PHONE_UK: 3, PHONE_UK_MOBILE: 3, PHONE_US: 3,
+};
+
+const STREET_ADDRESS_CATEGORIES = new Set(['AU_ADDRESS', 'NZ_ADDRESS', 'UK_ADDRESS']);
+
+/** Categories whose match starts with a label (e.g. "MRN: "); only the trailing identifier is replaced */
+const LABELLED_CATEGORIES = new Set(['MEDICAL_RECORD_NUMBER', 'CERTIFICATE_LICENCE_NUMBER']);
+
+const MAX_ATTEMPTS = 200;
+
+const pick = <T>(items: T[]): T => items[randomInt(items.length)];
+
+const randomLetter = (upper: boolean): string => {
+  const letter = String.fromCharCode(97 + randomInt(26));
+  return upper ? letter.toUpperCase() : letter;
+};
+
+/**
+ * Replace every digit and letter with a random one of the same kind and case, keeping
+ * separators, and the first `keepDigits` digits as they were.
+ */
+function randomizeCharacters(text: string, keepDigits: number = 0): string {
+  let digitsSeen = 0;
+  return text.replace(/[0-9A-Za-z]/g, ch => {
+    if (/\d/.test(ch)) {
+      return digitsSeen++ < keepDigits ? ch : String(randomInt(10));
+    }
+    return randomLetter(ch === ch.toUpperCase());
+  });
+}
+
+function withDigitPrefix(text: string, prefix: string): string {
+  let i = 0;
+  return text.replace(/\d/g, ch => (i < prefix.length ? prefix[i++] : ch));
+}
+
+function fakeName(original: string): string {
+  const words = original.trim().split(/\s+/);
+  if (words.length === 1) return pick(FIRST_NAMES);
+  const middle = words.slice(1, -1).map(() => pick(FIRST_NAMES));
+  return [pick(FIRST_NAMES), ...middle, pick(LAST_NAMES)].join(' ');
+}
+
+function fakeEmail(): string {
+  return `${pick(FIRST_NAMES)}.${pick(LAST_NAMES)}${randomInt(100)}@example.${pick(['com', 'net', 'org'])}`.toLowerCase();
+}
+
+function fakeDate(original: string): string | null {
+  const match = original.match(/^(\d{1,2})([/-])(\d{1,2})([/-])(\d{4})$/);
+  if (!match) return null;
+  const pad = (n: number, width: number) => String(n).padStart(width, '0');
+  return `${pad(1 + randomInt(28), match[1].length)}${match[2]}${pad(1 + randomInt(12), match[3].length)}${match[4]}${1950 + randomInt(56)}`;
+}
+
+function fakeAddress(original: string): string {
+  const words = original.split(/(\s+)/);
+  // Keep the street type (last word); randomize the number and rename the street
+  return words.map((word, i) => {
+    if (i === words.length - 1 || /^\s+$/.test(word)) return word;
+    if (/^\d+$/.test(word)) return String(1 + randomInt(Math.min(10 ** word.length - 1, 999)));
+    return pick(STREET_NAMES);
+  }).join('');
+}
+
+function fakeFromPattern(category: string, original: string): string {
+  if (category === 'CREDIT_CARD') {
+    const prefix = TEST_CARD_PREFIXES[original.match(/\d/)?.[0] ?? ''] ?? TEST_CARD_PREFIXES['4'];
+    return withDigitPrefix(randomizeCharacters(original), prefix);
+  }
+  if (LABELLED_CATEGORIES.has(category)) {
+    return original.replace(/[A-Z0-9][-A-Z0-9]{2,}$/i, id => randomizeCharacters(id));
+  }
+  if (STREET_ADDRESS_CATEGORIES.has(category)) {
+    return fakeAddress(original);
+  }
+  if (category === 'MAC_ADDRESS') {
+    return original.replace(/[0-9A-Fa-f]/g, ch => {
+      const hex = randomInt(16).toString(16);
+      return ch === ch.toUpperCase() ? hex.toUpperCase() : hex;
+    });
+  }
+  if (category.startsWith('DATE_OF_BIRTH')) {
+    return fakeDate(original) ?? randomizeCharacters(original);
+  }
+  return randomizeCharacters(original, KEEP_LEADING_DIGITS[category] ?? 0);
+}
+
+/**
+ * Generate a realistic fake for a detected value, or null when the category has no
+ * surrogate (e.g. dictionary terms) or no valid one could be produced.
+ */
+export function generateSurrogate(category: string, original: string): string | null {
+  switch (category) {
+    case 'PERSON':
+      return fakeName(original);
+    case 'ORG':
+      return pick(ORGANISATIONS);
+    case 'LOCATION':
+      return pick(LOCATIONS);
+    case 'EMAIL':
+      return fakeEmail();
+    case 'IP_ADDRESS':
+      return `${pick(['192.0.2', '198.51.100', '203.0.113'])}.${1 + randomInt(254)}`;
+    case 'IPV6_ADDRESS':
+      return `2001:db8::${randomInt(0x10000).toString(16)}:${randomInt(0x10000).toString(16)}`;
+    case 'URL':
+      return `${original.toLowerCase().startsWith('http:') ? 'http' : 'https'}://www.example.com/${Array.from({ length: 8 }, () => randomLetter(false)).join('')}`;
+  }
+
+  const pattern = DEFAULT_PATTERNS.find(p => p.name === category);
+  if (!pattern) return null;
+
+  const whole = new RegExp(`^(?:${pattern.pattern.source})$`, pattern.pattern.flags.replace('g', ''));
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const candidate = fakeFromPattern(category, original);
+    if (candidate === original || !whole.test(candidate)) continue;
+    try {
+      if (pattern.validator && !pattern.validator(candidate)) continue;
+    } catch {
+      continue;
+    }
+    return candidate;
+  }
+  return null;
+}
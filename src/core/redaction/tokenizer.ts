@@ -1,4 +1,44 @@
 import { v4 as uuidv4 } from 'uuid';
+import type { PIIDetection } from '../types.js';
+import { generateSurrogate } from './surrogates.js';
+import { encryptPreservingFormat } from './fpe.js';
+import { applyIrreversibleOperator, resolveOperator, type Operator } from './operators.js';
+
+/**
+ * How placeholders sent upstream look, between `placeholderPrefix` and `placeholderSuffix`:
+ * - `opaque`: a random 16-character hex ID, e.g. `\uE000a1b2c3d4e5f60718\uE001`
+ * - `typed`: the category and a per-session counter, e.g. `[PERSON_1]`
+ * - `surrogate`: a realistic fake value of the same kind, e.g. `Jordan Ashford`, without
+ *   prefix or suffix; categories without a surrogate fall back to `typed`
+ */
+export const PLACEHOLDER_STYLES = ['opaque', 'typed', 'surrogate'] as const;
+export type PlaceholderStyle = typeof PLACEHOLDER_STYLES[number];
+
+/** Readable delimiters that replace the PUA defaults when the typed or surrogate style is set */
+export const TYPED_PREFIX = '[';
+export const TYPED_SUFFIX = ']';
+
+/** Text that replaces a token as is; only reversible ones are returned for the session */
+export interface FixedPlaceholder {
+  text: string;
+  reversible: boolean;
+}
+
+export interface PlaceholderOptions {
+  style: PlaceholderStyle;
+  prefix: string;
+  suffix: string;
+  /** Categories replaced with their format-preserving ciphertext, whatever the style */
+  fpe?: { key: Buffer; categories: string[] };
+  /** Operator per category or category glob; unlisted categories use `redact` */
+  operators?: Record<string, Operator>;
+  /** HMAC key for the `hash` operator; plain SHA-256 without one */
+  hashKey?: string | null;
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const SURROGATE_ATTEMPTS = 10;
 
 export class Tokenizer {
   private readonly prefix = '\uE000';
@@ -21,10 +61,137 @@ export class Tokenizer {
     return result;
   }
 
+  /** Start and end index of each internal token in `text` */
+  findTokenSpans(text: string): [number, number][] {
+    return [...text.matchAll(new RegExp(`${this.prefix}[^${this.suffix}]*${this.suffix}`, 'g'))]
+      .map(m => [m.index!, m.index! + m[0].length]);
+  }
+
   extractToken(text: string): string | null {
     const escapedPrefix = this.prefix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
     const escapedSuffix = this.suffix.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
     const match = text.match(new RegExp(`${escapedPrefix}(.*?)${escapedSuffix}`));
     return match ? match[1] : null;
   }
+
+  /**
+   * Swap the internal tokens a redaction produced for the session's public placeholders.
+   * A value the session already has (compared case-insensitively) keeps its placeholder,
+   * so each distinct value maps to one placeholder for the session's lifetime; a new value
+   * gets one in the configured style. Typed placeholders are numbered per category,
+   * continuing from the highest number the session already uses. A surrogate is never one
+   * of the session's originals, never already in the text, and never contains or is
+   * contained in another placeholder.
+   * Values in `options.fpe` categories are encrypted instead, so the same value gets the
+   * same ciphertext in every session.
+   *
+   * `existing` maps the session's placeholders to their originals. Tokens in `fixed` get
+   * that text instead, e.g. a dictionary entry's replacement. One-way operators from
+   * `options.operators` are applied like an irreversible fixed text, so their values are
+   * never returned for the session.
+   */
+  assignPlaceholders(
+    text: string,
+    tokens: Map<string, string>,
+    detections: PIIDetection[],
+    existing: Map<string, string>,
+    options: PlaceholderOptions,
+    fixed: Map<string, FixedPlaceholder> = new Map()
+  ): { text: string; tokens: Map<string, string> } {
+    // Keyed by lowercase original, matching RehydrationStore's deduplication
+    const assigned = new Map<string, string>();
+    for (const [placeholder, original] of existing) {
+      if (!assigned.has(original.toLowerCase())) assigned.set(original.toLowerCase(), placeholder);
+    }
+    const used = new Set(existing.keys());
+    const typedPattern = new RegExp(`^${escapeRegExp(options.prefix)}([A-Z0-9_]+)_(\\d+)${escapeRegExp(options.suffix)}$`);
+    const counters = new Map<string, number>();
+    for (const placeholder of used) {
+      const match = placeholder.match(typedPattern);
+      if (match) counters.set(match[1], Math.max(counters.get(match[1]) ?? 0, parseInt(match[2], 10)));
+    }
+
+    const typed = (category: string): string => {
+      const key = category.toUpperCase().replace(/[^A-Z0-9_]/g, '_');
+      let placeholder: string;
+      do {
+        const n = (counters.get(key) ?? 0) + 1;
+        counters.set(key, n);
+        placeholder = `${options.prefix}${key}_${n}${options.suffix}`;
+      } while (used.has(placeholder));
+      return placeholder;
+    };
+
+    const originals = new Set([...existing.values(), ...tokens.values()].map(o => o.toLowerCase()));
+    const lowerText = text.toLowerCase();
+    const surrogate = (category: string, original: string): string | null => {
+      for (let attempt = 0; attempt < SURROGATE_ATTEMPTS; attempt++) {
+        const candidate = generateSurrogate(category, original);
+        if (!candidate) return null;
+        const lower = candidate.toLowerCase();
+        // Hydration matches whole words, longest first, but a surrogate inside or around
+        // another placeholder could still be ambiguous
+        const overlaps = [...used].some(p => p !== '' && (p.toLowerCase().includes(lower) || lower.includes(p.toLowerCase())));
+        if (!originals.has(lower) && !lowerText.includes(lower) && !overlaps) {
+          return candidate;
+        }
+      }
+      return null;
+    };
+
+    const fpeCategories = new Set((options.fpe?.categories ?? []).map(c => c.toUpperCase()));
+    const encrypted = (category: string, original: string): string | null => {
+      if (!options.fpe || !fpeCategories.has(category.toUpperCase())) return null;
+      const ciphertext = encryptPreservingFormat(original, options.fpe.key, category);
+      return ciphertext !== original && !used.has(ciphertext) ? ciphertext : null;
+    };
+
+    const oneWay = (operator: Operator, original: string): FixedPlaceholder | undefined => {
+      const text = applyIrreversibleOperator(operator, original, options.hashKey ?? null);
+      return text === null ? undefined : { text, reversible: false };
+    };
+
+    const publicTokens = new Map<string, string>();
+    let result = text;
+    for (const [token, original] of tokens) {
+      // Tokens of overlapping matches that lost out never reach the text; they aren't returned
+      if (!result.includes(token)) continue;
+
+      const category = detections.find(d => d.value === original)?.category ?? 'PII';
+      const operator = resolveOperator(category, options.operators ?? {});
+      const replacement = fixed.get(token) ?? oneWay(operator, original);
+      if (replacement) {
+        result = result.replaceAll(token, replacement.text);
+        used.add(replacement.text);
+        if (replacement.reversible && !publicTokens.has(replacement.text)) publicTokens.set(replacement.text, original);
+        continue;
+      }
+
+      let placeholder = assigned.get(original.toLowerCase());
+      if (!placeholder) {
+        const domain = operator === 'keep-domain' ? original.match(/@([^@\s]+)$/)?.[1] : undefined;
+        const ciphertext = domain ? null : encrypted(category, original);
+        if (ciphertext) {
+          placeholder = ciphertext;
+        } else if (options.style === 'surrogate') {
+          placeholder = surrogate(category, original) ?? typed(category);
+        } else if (options.style === 'typed') {
+          placeholder = typed(category);
+        } else {
+          placeholder = `${options.prefix}${this.extractToken(token) ?? token}${options.suffix}`;
+        }
+        if (domain) {
+          // A surrogate is a whole fake email; keep its local part only
+          placeholder = `${options.style === 'surrogate' ? placeholder.split('@')[0] : placeholder}@${domain}`;
+        }
+        assigned.set(original.toLowerCase(), placeholder);
+        used.add(placeholder);
+      }
+
+      result = result.replaceAll(token, placeholder);
+      if (!publicTokens.has(placeholder)) publicTokens.set(placeholder, original);
+    }
+
+    return { text: result, tokens: publicTokens };
+  }
 }
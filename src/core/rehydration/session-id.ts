@@ -0,0 +1,40 @@
+import { createHmac } from 'crypto';
+
+/**
+ * Derive a stable session ID from a server secret and a list of identifying parts
+ * (e.g. a client API key). The result is UUID-shaped so it passes session ID validation,
+ * and is keyed so the parts cannot be recovered from it.
+ */
+export function deriveSessionId(secret: string, ...parts: string[]): string {
+  const hmac = createHmac('sha256', secret);
+  for (const part of parts) {
+    // Length-prefix each part so ["ab", "c"] and ["a", "bc"] differ
+    hmac.update(`${part.length}:${part}`);
+  }
+  const hex = hmac.digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20, 32)}`;
+}
+
+/**
+ * The part of a chat request that stays the same on every turn of a conversation when the
+ * client resends the full history: the system prompt plus every message up to and including
+ * the first user message. Understands OpenAI, Anthropic, Responses, Gemini, Ollama and
+ * Bedrock request bodies. Returns null when the body has no user message to anchor on.
+ */
+export function getConversationPrefix(body: any): string | null {
+  if (!body || typeof body !== 'object') return null;
+
+  const history = body.messages ?? body.contents ?? body.input;
+  let opening: unknown[];
+  if (typeof history === 'string') {
+    opening = [history];
+  } else if (Array.isArray(history)) {
+    const firstUser = history.findIndex(m => m?.role === 'user');
+    if (firstUser === -1) return null;
+    opening = history.slice(0, firstUser + 1);
+  } else {
+    return null;
+  }
+
+  return JSON.stringify([body.system ?? body.instructions ?? body.systemInstruction ?? null, opening]);
+}
@@ -1,4 +1,5 @@
 import type { SqliteDatabase } from '../database.js';
+import { replaceTokens } from './stream-rehydrator.js';
 
 export interface TokenEntry {
   original: string;
@@ -47,6 +48,15 @@ export class RehydrationStore {
     category: string = 'PII',
     meta?: Record<string, string>
   ): Promise<void> {
+    const entries = [...tokens].map(([tokenized, original]) => ({ original, tokenized, type, category, meta }));
+    await this.storeEntries(sessionId, entries, ttlSeconds);
+  }
+
+  /**
+   * Add token entries of any type and category to a session in one write. Originals the
+   * session already has (compared case-insensitively) are skipped.
+   */
+  async storeEntries(sessionId: string, entries: TokenEntry[], ttlSeconds: number = this.defaultTTL): Promise<void> {
     if (!RehydrationStore.isValidSessionId(sessionId)) {
       throw new Error('Invalid session ID format');
     }
@@ -60,10 +70,10 @@ export class RehydrationStore {
     const existingOriginals = new Set(existingTokens.map(t => t.original.toLowerCase()));
 
     const newTokens: TokenEntry[] = [];
-    for (const [tokenized, original] of tokens) {
-      if (!existingOriginals.has(original.toLowerCase())) {
-        newTokens.push({ original, tokenized, type, category, meta });
-        existingOriginals.add(original.toLowerCase());
+    for (const entry of entries) {
+      if (!existingOriginals.has(entry.original.toLowerCase())) {
+        newTokens.push(entry);
+        existingOriginals.add(entry.original.toLowerCase());
       }
     }
 
@@ -110,11 +120,7 @@ export class RehydrationStore {
     const session = await this.retrieve(sessionId);
     if (!session) return text;
 
-    let result = text;
-    for (const token of session.tokens) {
-      result = result.replaceAll(token.tokenized, token.original);
-    }
-    return result;
+    return replaceTokens(text, new Map(session.tokens.map(t => [t.tokenized, t.original])));
   }
 
   async delete(sessionId: string): Promise<boolean> {
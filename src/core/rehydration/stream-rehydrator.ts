@@ -0,0 +1,513 @@
+/**
+ * Rehydration of placeholders in provider responses, including streamed responses
+ * where a single placeholder may be split across several deltas.
+ */
+
+export type StreamFormat = 'openai' | 'anthropic' | 'responses' | 'gemini' | 'ollama' | 'bedrock';
+
+/**
+ * Whether `obj[key]` is a string holding serialized JSON rather than plain text:
+ * tool-call arguments (OpenAI chat/Responses) and streamed tool input (Anthropic, Responses).
+ * Originals substituted into these must be JSON-escaped.
+ */
+export function isJsonStringField(obj: any, key: string): boolean {
+  if (key === 'arguments' || key === 'partial_json') return true;
+  return key === 'delta' && obj?.type === 'response.function_call_arguments.delta';
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Compiled token patterns, rebuilt when a session's token map grows
+const tokenPatterns = new WeakMap<Map<string, string>, { size: number; pattern: RegExp }>();
+
+/**
+ * One pattern matching any placeholder, longest first so a placeholder that starts with
+ * another (`Jordan Ashford`, `Jordan`) wins. A placeholder that starts or ends with a
+ * letter or digit, such as a surrogate, only matches as a whole word: `Alex` is not
+ * replaced inside `Alexander`.
+ */
+function getTokenPattern(tokens: Map<string, string>): RegExp {
+  const cached = tokenPatterns.get(tokens);
+  if (cached?.size === tokens.size) return cached.pattern;
+
+  const alternatives = [...tokens.keys()]
+    .filter(token => token.length > 0)
+    .sort((a, b) => b.length - a.length)
+    .map(token => (WORD_CHAR.test(token[0]) ? '(?<![\\p{L}\\p{N}_])' : '')
+      + escapeRegExp(token)
+      + (WORD_CHAR.test(token[token.length - 1]) ? '(?![\\p{L}\\p{N}_])' : ''));
+  const pattern = new RegExp(alternatives.join('|') || '(?!)', 'gu');
+  tokenPatterns.set(tokens, { size: tokens.size, pattern });
+  return pattern;
+}
+
+/**
+ * Replace every complete placeholder in `text` with its original value. With `end`, only
+ * `text.slice(0, end)` is replaced and returned; the rest is only looked at to decide
+ * whether a placeholder at the end is a whole word.
+ */
+export function replaceTokens(text: string, tokens: Map<string, string>, escapeJson: boolean = false, end: number = text.length): string {
+  if (tokens.size === 0) return text.slice(0, end);
+
+  let result = '';
+  let last = 0;
+  for (const match of text.matchAll(getTokenPattern(tokens))) {
+    if (match.index! + match[0].length > end) break;
+    const original = tokens.get(match[0])!;
+    result += text.slice(last, match.index) + (escapeJson ? JSON.stringify(original).slice(1, -1) : original);
+    last = match.index! + match[0].length;
+  }
+  return result + text.slice(last, end);
+}
+
+/**
+ * Replace placeholders in every string of a parsed JSON value.
+ */
+export function hydrateValue<T>(value: T, tokens: Map<string, string>, escapeJson: boolean = false): T {
+  if (typeof value === 'string') {
+    return replaceTokens(value, tokens, escapeJson) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(v => hydrateValue(v, tokens)) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    const result: any = {};
+    for (const [k, v] of Object.entries(value)) {
+      result[k] = hydrateValue(v, tokens, isJsonStringField(value, k));
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * Incrementally rehydrates one stream of text. Any trailing text that could be the
+ * start of a placeholder is held back until the next chunk (or flush) resolves it.
+ */
+export class TextRehydrator {
+  private pending = '';
+
+  constructor(
+    private tokens: Map<string, string>,
+    private escapeJson: boolean = false
+  ) {}
+
+  push(text: string): string {
+    const buffer = this.pending + text;
+    const holdFrom = this.findPartialToken(buffer);
+    this.pending = buffer.slice(holdFrom);
+    return replaceTokens(buffer, this.tokens, this.escapeJson, holdFrom);
+  }
+
+  flush(): string {
+    const rest = this.pending;
+    this.pending = '';
+    return replaceTokens(rest, this.tokens, this.escapeJson);
+  }
+
+  hasPending(): boolean {
+    return this.pending.length > 0;
+  }
+
+  /**
+   * Index where the longest suffix of `buffer` that is a proper prefix of a known token starts,
+   * or `buffer.length` if there is none. A whole token ending in a letter or digit is held
+   * too, until the next chunk shows whether the word ends there.
+   */
+  private findPartialToken(buffer: string): number {
+    let maxLength = 0;
+    for (const token of this.tokens.keys()) {
+      maxLength = Math.max(maxLength, token.length);
+    }
+
+    for (let i = Math.max(0, buffer.length - maxLength); i < buffer.length; i++) {
+      const suffix = buffer.slice(i);
+      for (const token of this.tokens.keys()) {
+        if (token.startsWith(suffix) && (token.length > suffix.length || WORD_CHAR.test(suffix[suffix.length - 1]))) {
+          return i;
+        }
+      }
+    }
+    return buffer.length;
+  }
+}
+
+/**
+ * Incremental transform applied to a channel's text after rehydration. It may hold text
+ * back like TextRehydrator does; whatever it holds is released by `flush`.
+ */
+export interface TextFilter {
+  push(text: string): string;
+  flush(): string;
+  hasPending(): boolean;
+}
+
+interface TextField {
+  /** Identifies the logical stream (content block, choice, output item) the text belongs to */
+  channel: string;
+  get: (event: any) => string;
+  set: (event: any, text: string) => void;
+  /** Build a synthetic event from `event` that carries only this field, set to `text` */
+  isolate: (event: any, text: string) => any;
+  escapeJson: boolean;
+}
+
+interface Channel {
+  rehydrator: TextRehydrator;
+  filter: TextFilter | null;
+  field: TextField;
+  /** Last event seen on this channel, cloned to carry any held-back text when it is flushed */
+  template: any;
+}
+
+/**
+ * Provider-aware rehydrator for parsed streaming events (one SSE `data:` payload or
+ * JSON-array element at a time). Text deltas are rehydrated per channel so placeholders
+ * split across events are restored; other strings are hydrated in place.
+ *
+ * Held-back text is released when its channel ends (block stop, finish reason, `done`
+ * event) or at the end of the stream, as a synthetic delta event cloned from the
+ * channel's last event and placed before the event that ended it.
+ */
+export class StreamRehydrator {
+  private channels = new Map<string, Channel>();
+
+  constructor(
+    private format: StreamFormat,
+    private tokens: Map<string, string>,
+    /** Creates a filter for each channel's rehydrated text, e.g. an egress scan */
+    private createFilter?: () => TextFilter
+  ) {}
+
+  /**
+   * Hydrate one event. Returns the events to emit in order: any synthetic flush
+   * events, then the hydrated event itself.
+   */
+  process(event: any): any[] {
+    if (!event || typeof event !== 'object') {
+      return [hydrateValue(event, this.tokens)];
+    }
+
+    const ending = new Set(this.endedChannels(event));
+    const out: any[] = [];
+    const hydrated = structuredClone(event);
+
+    for (const field of this.textFields(event)) {
+      const channel = this.getChannel(field, event);
+      let text = this.pushText(channel, field.get(event));
+      if (ending.has(field.channel)) {
+        // The event that ends the channel carries text itself: append the held-back rest
+        text += this.flushText(channel);
+        this.channels.delete(field.channel);
+        ending.delete(field.channel);
+      }
+      field.set(hydrated, text);
+    }
+
+    for (const id of ending) {
+      const flushed = this.flushChannel(id);
+      if (flushed) out.push(flushed);
+    }
+
+    out.push(this.hydrateRest(hydrated, event));
+    return out;
+  }
+
+  /**
+   * Release all held-back text, e.g. before `data: [DONE]` or when the upstream closes.
+   */
+  end(): any[] {
+    const out: any[] = [];
+    for (const id of [...this.channels.keys()]) {
+      const flushed = this.flushChannel(id);
+      if (flushed) out.push(flushed);
+    }
+    return out;
+  }
+
+  private getChannel(field: TextField, event: any): Channel {
+    let channel = this.channels.get(field.channel);
+    if (!channel) {
+      channel = {
+        rehydrator: new TextRehydrator(this.tokens, field.escapeJson),
+        filter: this.createFilter ? this.createFilter() : null,
+        field,
+        template: event,
+      };
+      this.channels.set(field.channel, channel);
+    }
+    channel.field = field;
+    channel.template = event;
+    return channel;
+  }
+
+  private flushChannel(id: string): any | null {
+    const channel = this.channels.get(id);
+    this.channels.delete(id);
+    if (!channel || !(channel.rehydrator.hasPending() || channel.filter?.hasPending())) return null;
+
+    return channel.field.isolate(channel.template, this.flushText(channel));
+  }
+
+  private pushText(channel: Channel, text: string): string {
+    const hydrated = channel.rehydrator.push(text);
+    return channel.filter ? channel.filter.push(hydrated) : hydrated;
+  }
+
+  private flushText(channel: Channel): string {
+    const rest = channel.rehydrator.flush();
+    return channel.filter ? channel.filter.push(rest) + channel.filter.flush() : rest;
+  }
+
+  /**
+   * Hydrate everything except the channel text fields, which were already handled.
+   */
+  private hydrateRest(hydrated: any, original: any): any {
+    const fields = this.textFields(original);
+    const saved = fields.map(f => f.get(hydrated));
+    const result = hydrateValue(hydrated, this.tokens);
+    fields.forEach((f, i) => f.set(result, saved[i]));
+    return result;
+  }
+
+  private textFields(event: any): TextField[] {
+    switch (this.format) {
+      case 'openai': return openaiTextFields(event);
+      case 'anthropic': return anthropicTextFields(event);
+      case 'responses': return responsesTextFields(event);
+      case 'gemini': return geminiTextFields(event);
+      case 'ollama': return ollamaTextFields(event);
+      case 'bedrock': return bedrockTextFields(event);
+    }
+  }
+
+  private endedChannels(event: any): string[] {
+    switch (this.format) {
+      case 'openai':
+        return (Array.isArray(event.choices) ? event.choices : [])
+          .filter((c: any) => c?.finish_reason)
+          .flatMap((c: any) => this.channelsWithPrefix(`choice:${c.index ?? 0}:`));
+      case 'anthropic':
+        if (event.type === 'content_block_stop') return [`block:${event.index}`];
+        if (event.type === 'message_stop') return [...this.channels.keys()];
+        return [];
+      case 'responses':
+        if (event.type === 'response.output_text.done' || event.type === 'response.refusal.done') {
+          return [`text:${event.item_id}:${event.content_index ?? 0}`];
+        }
+        if (event.type === 'response.function_call_arguments.done') return [`args:${event.item_id}`];
+        if (event.type === 'response.completed' || event.type === 'response.incomplete') return [...this.channels.keys()];
+        return [];
+      case 'gemini':
+        return (Array.isArray(event.candidates) ? event.candidates : [])
+          .filter((c: any) => c?.finishReason)
+          .flatMap((c: any) => this.channelsWithPrefix(`candidate:${c.index ?? 0}:`));
+      case 'ollama':
+        return event.done ? [...this.channels.keys()] : [];
+      case 'bedrock':
+        if (event.contentBlockStop) return [`block:${event.contentBlockStop.contentBlockIndex}`];
+        if (event.messageStop) return [...this.channels.keys()];
+        return [];
+    }
+  }
+
+  private channelsWithPrefix(prefix: string): string[] {
+    return [...this.channels.keys()].filter(id => id.startsWith(prefix));
+  }
+}
+
+function openaiTextFields(event: any): TextField[] {
+  const fields: TextField[] = [];
+  if (!Array.isArray(event.choices)) return fields;
+
+  event.choices.forEach((choice: any, i: number) => {
+    const delta = choice?.delta;
+    if (!delta) return;
+    const index = choice.index ?? i;
+
+    for (const key of ['content', 'refusal']) {
+      if (typeof delta[key] === 'string') {
+        fields.push({
+          channel: `choice:${index}:${key}`,
+          get: e => e.choices[i].delta[key],
+          set: (e, text) => { e.choices[i].delta[key] = text; },
+          isolate: (e, text) => openaiChunk(e, i, { [key]: text }),
+          escapeJson: false,
+        });
+      }
+    }
+
+    if (Array.isArray(delta.tool_calls)) {
+      delta.tool_calls.forEach((call: any, j: number) => {
+        if (typeof call?.function?.arguments !== 'string') return;
+        fields.push({
+          channel: `choice:${index}:tool:${call.index ?? j}`,
+          get: e => e.choices[i].delta.tool_calls[j].function.arguments,
+          set: (e, text) => { e.choices[i].delta.tool_calls[j].function.arguments = text; },
+          isolate: (e, text) => openaiChunk(e, i, {
+            tool_calls: [{ index: e.choices[i].delta.tool_calls[j].index ?? j, function: { arguments: text } }],
+          }),
+          escapeJson: true,
+        });
+      });
+    }
+
+    if (typeof delta.function_call?.arguments === 'string') {
+      fields.push({
+        channel: `choice:${index}:function_call`,
+        get: e => e.choices[i].delta.function_call.arguments,
+        set: (e, text) => { e.choices[i].delta.function_call.arguments = text; },
+        isolate: (e, text) => openaiChunk(e, i, { function_call: { arguments: text } }),
+        escapeJson: true,
+      });
+    }
+  });
+  return fields;
+}
+
+/**
+ * A chat completion chunk for choice `i` with the given delta and no finish reason or usage.
+ */
+function openaiChunk(event: any, i: number, delta: any): any {
+  const { choices, usage, ...rest } = event;
+  const choice = choices[i];
+  return { ...rest, choices: [{ index: choice.index ?? i, delta, finish_reason: null }] };
+}
+
+function anthropicTextFields(event: any): TextField[] {
+  if (event.type !== 'content_block_delta' || !event.delta) return [];
+
+  const key = event.delta.type === 'input_json_delta' ? 'partial_json'
+    : event.delta.type === 'thinking_delta' ? 'thinking'
+    : 'text';
+  if (typeof event.delta[key] !== 'string') return [];
+
+  return [{
+    channel: `block:${event.index}`,
+    get: e => e.delta[key],
+    set: (e, text) => { e.delta[key] = text; },
+    isolate: (e, text) => ({ ...e, delta: { ...e.delta, [key]: text } }),
+    escapeJson: key === 'partial_json',
+  }];
+}
+
+function responsesTextFields(event: any): TextField[] {
+  if (typeof event.delta !== 'string') return [];
+
+  if (event.type === 'response.output_text.delta' || event.type === 'response.refusal.delta') {
+    return [{
+      channel: `text:${event.item_id}:${event.content_index ?? 0}`,
+      get: e => e.delta,
+      set: (e, text) => { e.delta = text; },
+      isolate: (e, text) => ({ ...e, delta: text }),
+      escapeJson: false,
+    }];
+  }
+
+  if (event.type === 'response.function_call_arguments.delta') {
+    return [{
+      channel: `args:${event.item_id}`,
+      get: e => e.delta,
+      set: (e, text) => { e.delta = text; },
+      isolate: (e, text) => ({ ...e, delta: text }),
+      escapeJson: true,
+    }];
+  }
+  return [];
+}
+
+function geminiTextFields(event: any): TextField[] {
+  const fields: TextField[] = [];
+  if (!Array.isArray(event.candidates)) return fields;
+
+  event.candidates.forEach((candidate: any, i: number) => {
+    const parts = candidate?.content?.parts;
+    if (!Array.isArray(parts)) return;
+    const index = candidate.index ?? i;
+
+    parts.forEach((part: any, j: number) => {
+      if (typeof part?.text !== 'string') return;
+      // Thought summaries stream separately from the answer text
+      fields.push({
+        channel: `candidate:${index}:${part.thought ? 'thought' : 'text'}`,
+        get: e => e.candidates[i].content.parts[j].text,
+        set: (e, text) => { e.candidates[i].content.parts[j].text = text; },
+        isolate: (e, text) => geminiChunk(e, i, part.thought ? { text, thought: true } : { text }),
+        escapeJson: false,
+      });
+    });
+  });
+  return fields;
+}
+
+function ollamaTextFields(event: any): TextField[] {
+  const fields: TextField[] = [];
+
+  // /api/chat streams message.content (and message.thinking); /api/generate streams response (and thinking)
+  for (const key of ['content', 'thinking']) {
+    if (typeof event.message?.[key] === 'string') {
+      fields.push({
+        channel: `message:${key}`,
+        get: e => e.message[key],
+        set: (e, text) => { e.message[key] = text; },
+        isolate: (e, text) => ({ model: e.model, created_at: e.created_at, message: { role: e.message.role, [key]: text }, done: false }),
+        escapeJson: false,
+      });
+    }
+  }
+
+  for (const key of ['response', 'thinking']) {
+    if (typeof event[key] === 'string') {
+      fields.push({
+        channel: key,
+        get: e => e[key],
+        set: (e, text) => { e[key] = text; },
+        isolate: (e, text) => ({ model: e.model, created_at: e.created_at, [key]: text, done: false }),
+        escapeJson: false,
+      });
+    }
+  }
+  return fields;
+}
+
+/**
+ * ConverseStream events, keyed by event type as the AWS SDKs surface them,
+ * e.g. `{ contentBlockDelta: { contentBlockIndex, delta: { text } } }`.
+ */
+function bedrockTextFields(event: any): TextField[] {
+  const block = event.contentBlockDelta;
+  const delta = block?.delta;
+  if (!delta) return [];
+
+  const text = (get: (d: any) => any, set: (d: any, text: string) => void, wrap: (text: string) => any, escapeJson: boolean): TextField[] => {
+    if (typeof get(delta) !== 'string') return [];
+    return [{
+      channel: `block:${block.contentBlockIndex}`,
+      get: e => get(e.contentBlockDelta.delta),
+      set: (e, value) => set(e.contentBlockDelta.delta, value),
+      isolate: (e, value) => ({ contentBlockDelta: { contentBlockIndex: e.contentBlockDelta.contentBlockIndex, delta: wrap(value) } }),
+      escapeJson,
+    }];
+  };
+
+  // Streamed tool input is a fragment of serialized JSON
+  return [
+    ...text(d => d.text, (d, v) => { d.text = v; }, v => ({ text: v }), false),
+    ...text(d => d.toolUse?.input, (d, v) => { d.toolUse.input = v; }, v => ({ toolUse: { input: v } }), true),
+    ...text(d => d.reasoningContent?.text, (d, v) => { d.reasoningContent.text = v; }, v => ({ reasoningContent: { text: v } }), false),
+  ];
+}
+
+/**
+ * A generateContent chunk for candidate `i` with a single part and no finish reason or usage.
+ */
+function geminiChunk(event: any, i: number, part: any): any {
+  const { candidates, usageMetadata, ...rest } = event;
+  const { finishReason, ...candidate } = candidates[i];
+  return { ...rest, candidates: [{ ...candidate, content: { ...candidate.content, parts: [part] } }] };
+}
@@ -1,3 +1,6 @@
+import type { PlaceholderStyle } from './redaction/tokenizer.js';
+import type { Operator } from './redaction/operators.js';
+
 export interface PIIDetection {
   type: 'dictionary' | 'regex' | 'names' | 'ner';
   category: string;
@@ -25,12 +28,29 @@ export interface RedactionConfig {
   tokenizePlaceholders: boolean;
   placeholderPrefix: string;
   placeholderSuffix: string;
+  /** `opaque` (random ID), `typed` (e.g. `[PERSON_1]`) or `surrogate` (fake values); defaults to `opaque` */
+  placeholderStyle?: PlaceholderStyle;
+  /** Regex categories replaced with format-preserving ciphertext instead of a placeholder */
+  fpeCategories?: string[];
+  /** FF3-1 key for `fpeCategories`; without one those categories get normal placeholders */
+  fpeKey?: Buffer | null;
+  /** Anonymization operator per category or glob, e.g. `{ "CREDIT_CARD": "mask" }` */
+  categoryOperators?: Record<string, Operator>;
+  /** HMAC key for the `hash` operator */
+  hashKey?: string | null;
+  /** Detections below this confidence are left unredacted (dictionary matches always apply) */
+  minConfidence?: number;
+  /** Detection categories to leave unredacted, e.g. ['URL'] (dictionary matches always apply) */
+  excludeCategories?: string[];
 }
 
 export interface DictionaryEntry {
   id: string;
   term: string;
+  /** Literal text sent upstream instead of a placeholder, e.g. `Project X` */
   replacement?: string;
+  /** Whether responses map `replacement` back to the term; defaults to true */
+  reversible?: boolean;
   caseSensitive: boolean;
   wholeWord: boolean;
   enabled: boolean;
@@ -39,15 +59,39 @@ export interface DictionaryEntry {
 
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant' | 'tool';
-  content: string | ContentBlock[];
+  content: string | ContentBlock[] | null;
   name?: string;
   tool_call_id?: string;
+  tool_calls?: ToolCall[];
+  function_call?: { name: string; arguments: string };
+}
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
 }
 
 export interface ContentBlock {
-  type: 'text' | 'image_url';
+  type: 'text' | 'image_url' | 'tool_use' | 'tool_result' | 'document';
   text?: string;
   image_url?: { url: string; detail?: 'low' | 'high' | 'auto' };
+  id?: string;
+  name?: string;
+  input?: unknown;
+  tool_use_id?: string;
+  content?: string | ContentBlock[];
+  source?: DocumentSource;
+  title?: string;
+  context?: string;
+  cache_control?: { type: 'ephemeral'; ttl?: string };
+}
+
+export interface DocumentSource {
+  type: 'text' | 'content' | 'base64' | 'url' | 'file';
+  media_type?: string;
+  data?: string;
+  content?: string | ContentBlock[];
 }
 
 export interface ProxyConfig {
@@ -0,0 +1,25 @@
+/**
+ * Error raised by proxy handlers. `sendError` reads `status`, `type` and `code`
+ * to build the client-facing error body.
+ */
+export class ProxyError extends Error {
+  constructor(
+    message: string,
+    public status: number = 400,
+    public type: string = 'invalid_request_error',
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+/**
+ * Raised instead of sending a request while an upstream's circuit breaker is open.
+ */
+export class CircuitOpenError extends ProxyError {
+  constructor() {
+    super('Upstream provider is temporarily unavailable', 503, 'api_error');
+    this.name = 'CircuitOpenError';
+  }
+}
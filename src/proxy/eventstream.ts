@@ -0,0 +1,183 @@
+/**
+ * Codec for the AWS event stream framing (application/vnd.amazon.eventstream) used by
+ * Bedrock's ConverseStream. Each message is:
+ *
+ *   total length (4) | headers length (4) | prelude CRC (4) | headers | payload | message CRC (4)
+ *
+ * with big-endian integers and CRC32 (IEEE) checksums.
+ */
+
+const PRELUDE_LENGTH = 12;
+const CHECKSUM_LENGTH = 4;
+const MIN_MESSAGE_LENGTH = PRELUDE_LENGTH + CHECKSUM_LENGTH;
+const MAX_MESSAGE_LENGTH = 16 * 1024 * 1024;
+
+// Header value types; only strings are decoded, other values are kept as raw bytes
+const TYPE_BOOL_TRUE = 0;
+const TYPE_BOOL_FALSE = 1;
+const TYPE_BYTES = 6;
+const TYPE_STRING = 7;
+const FIXED_VALUE_LENGTHS: Record<number, number> = { 2: 1, 3: 2, 4: 4, 5: 8, 8: 8, 9: 16 };
+
+export interface EventStreamHeader {
+  name: string;
+  type: number;
+  value: string | Buffer;
+}
+
+export interface EventStreamMessage {
+  headers: EventStreamHeader[];
+  payload: Buffer;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Look up a string header, e.g. `:event-type` or `:message-type`.
+ */
+export function getHeader(message: EventStreamMessage, name: string): string | undefined {
+  const header = message.headers.find(h => h.name === name);
+  return typeof header?.value === 'string' ? header.value : undefined;
+}
+
+function decodeHeaders(buf: Buffer): EventStreamHeader[] {
+  const headers: EventStreamHeader[] = [];
+  let offset = 0;
+
+  while (offset < buf.length) {
+    const nameLength = buf.readUInt8(offset);
+    offset += 1;
+    const name = buf.toString('utf8', offset, offset + nameLength);
+    offset += nameLength;
+    const type = buf.readUInt8(offset);
+    offset += 1;
+
+    let value: string | Buffer;
+    if (type === TYPE_BOOL_TRUE || type === TYPE_BOOL_FALSE) {
+      value = Buffer.alloc(0);
+    } else if (type === TYPE_BYTES || type === TYPE_STRING) {
+      const length = buf.readUInt16BE(offset);
+      offset += 2;
+      const bytes = buf.subarray(offset, offset + length);
+      offset += length;
+      value = type === TYPE_STRING ? bytes.toString('utf8') : Buffer.from(bytes);
+    } else if (type in FIXED_VALUE_LENGTHS) {
+      const length = FIXED_VALUE_LENGTHS[type];
+      value = Buffer.from(buf.subarray(offset, offset + length));
+      offset += length;
+    } else {
+      throw new Error(`Unknown event stream header type ${type}`);
+    }
+    if (offset > buf.length) throw new Error('Truncated event stream headers');
+    headers.push({ name, type, value });
+  }
+  return headers;
+}
+
+function encodeHeaders(headers: EventStreamHeader[]): Buffer {
+  const parts: Buffer[] = [];
+  for (const header of headers) {
+    const name = Buffer.from(header.name, 'utf8');
+    parts.push(Buffer.from([name.length]), name, Buffer.from([header.type]));
+    const value = typeof header.value === 'string' ? Buffer.from(header.value, 'utf8') : header.value;
+    if (header.type === TYPE_BYTES || header.type === TYPE_STRING) {
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(value.length);
+      parts.push(length);
+    }
+    parts.push(value);
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Encode a single event stream message.
+ */
+export function encodeMessage(message: EventStreamMessage): Buffer {
+  const headers = encodeHeaders(message.headers);
+  const totalLength = PRELUDE_LENGTH + headers.length + message.payload.length + CHECKSUM_LENGTH;
+  const out = Buffer.alloc(totalLength);
+
+  out.writeUInt32BE(totalLength, 0);
+  out.writeUInt32BE(headers.length, 4);
+  out.writeUInt32BE(crc32(out.subarray(0, 8)), 8);
+  headers.copy(out, PRELUDE_LENGTH);
+  message.payload.copy(out, PRELUDE_LENGTH + headers.length);
+  out.writeUInt32BE(crc32(out.subarray(0, totalLength - CHECKSUM_LENGTH)), totalLength - CHECKSUM_LENGTH);
+  return out;
+}
+
+/**
+ * Encode a JSON event in the shape Bedrock sends them.
+ */
+export function encodeJsonEvent(eventType: string, payload: unknown): Buffer {
+  return encodeMessage({
+    headers: [
+      { name: ':event-type', type: TYPE_STRING, value: eventType },
+      { name: ':content-type', type: TYPE_STRING, value: 'application/json' },
+      { name: ':message-type', type: TYPE_STRING, value: 'event' },
+    ],
+    payload: Buffer.from(JSON.stringify(payload), 'utf8'),
+  });
+}
+
+/**
+ * Incremental decoder: feed it response chunks and it returns each complete message,
+ * buffering any partial message until the rest arrives. Throws on checksum mismatches.
+ */
+export class EventStreamDecoder {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  push(chunk: Uint8Array): EventStreamMessage[] {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : Buffer.from(chunk);
+    const messages: EventStreamMessage[] = [];
+
+    while (this.buffer.length >= PRELUDE_LENGTH) {
+      const totalLength = this.buffer.readUInt32BE(0);
+      const headersLength = this.buffer.readUInt32BE(4);
+      if (crc32(this.buffer.subarray(0, 8)) !== this.buffer.readUInt32BE(8)) {
+        throw new Error('Event stream prelude checksum mismatch');
+      }
+      if (totalLength < MIN_MESSAGE_LENGTH || totalLength > MAX_MESSAGE_LENGTH ||
+          headersLength > totalLength - MIN_MESSAGE_LENGTH) {
+        throw new Error('Invalid event stream message length');
+      }
+      if (this.buffer.length < totalLength) break;
+
+      const message = this.buffer.subarray(0, totalLength);
+      if (crc32(message.subarray(0, totalLength - CHECKSUM_LENGTH)) !== message.readUInt32BE(totalLength - CHECKSUM_LENGTH)) {
+        throw new Error('Event stream message checksum mismatch');
+      }
+      const headersEnd = PRELUDE_LENGTH + headersLength;
+      messages.push({
+        headers: decodeHeaders(message.subarray(PRELUDE_LENGTH, headersEnd)),
+        payload: Buffer.from(message.subarray(headersEnd, totalLength - CHECKSUM_LENGTH)),
+      });
+      this.buffer = this.buffer.subarray(totalLength);
+    }
+    return messages;
+  }
+
+  /** Whether a partial message is still buffered */
+  hasPending(): boolean {
+    return this.buffer.length > 0;
+  }
+}
@@ -0,0 +1,110 @@
+import type { IncomingHttpHeaders } from 'http';
+import type { RedactionConfig } from '../core/types.js';
+import { ProxyError } from './errors.js';
+import { DEFAULT_PATTERNS } from '../core/redaction/regex-layer.js';
+import { OPERATORS, CATEGORY_GLOB_REGEX, type Operator } from '../core/redaction/operators.js';
+
+export const VALID_LOCALES = ['AU', 'NZ', 'UK', 'US'];
+
+const LAYERS: Record<string, keyof RedactionConfig> = {
+  dictionary: 'enableDictionary',
+  ner: 'enableNER',
+  regex: 'enableRegex',
+  names: 'enableNames',
+};
+
+const CATEGORY_REGEX = /^[A-Z0-9_]{1,64}$/;
+
+/** Categories that can be format-preserving encrypted: those of the regex patterns */
+const FPE_CATEGORIES = new Set(DEFAULT_PATTERNS.map(p => p.name));
+
+function getHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  if (value === undefined) return undefined;
+  return (Array.isArray(value) ? value.join(',') : value).trim();
+}
+
+function parseList(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+/**
+ * Read per-request redaction overrides from `x-anonamoose-*` headers:
+ * - `x-anonamoose-locale`: AU, NZ, UK, US, or `all` to use every regional pattern
+ * - `x-anonamoose-layers`: the layers to run, e.g. `dictionary,regex`
+ * - `x-anonamoose-min-confidence`: 0-1; weaker detections are left unredacted
+ * - `x-anonamoose-categories-exclude`: categories to leave unredacted, e.g. `URL,IP_ADDRESS`
+ *
+ * Throws a ProxyError (400) on an invalid value rather than silently redacting with global settings.
+ */
+export function parseRedactionOverrides(headers: IncomingHttpHeaders): Partial<RedactionConfig> {
+  const overrides: Partial<RedactionConfig> = {};
+
+  const locale = getHeader(headers, 'x-anonamoose-locale');
+  if (locale !== undefined) {
+    const upper = locale.toUpperCase();
+    if (upper !== 'ALL' && !VALID_LOCALES.includes(upper)) {
+      throw new ProxyError(`Invalid x-anonamoose-locale. Must be one of: ${VALID_LOCALES.join(', ')}, all`);
+    }
+    overrides.locale = upper === 'ALL' ? null : upper;
+  }
+
+  const layers = getHeader(headers, 'x-anonamoose-layers');
+  if (layers !== undefined) {
+    const names = parseList(layers.toLowerCase());
+    const unknown = names.filter(name => !(name in LAYERS));
+    if (unknown.length > 0) {
+      throw new ProxyError(`Invalid x-anonamoose-layers "${unknown.join(', ')}". Must be a list of: ${Object.keys(LAYERS).join(', ')}`);
+    }
+    for (const [name, key] of Object.entries(LAYERS)) {
+      (overrides as Record<string, unknown>)[key] = names.includes(name);
+    }
+  }
+
+  const minConfidence = getHeader(headers, 'x-anonamoose-min-confidence');
+  if (minConfidence !== undefined) {
+    const value = Number(minConfidence);
+    if (minConfidence === '' || !Number.isFinite(value) || value < 0 || value > 1) {
+      throw new ProxyError('Invalid x-anonamoose-min-confidence. Must be a number between 0 and 1');
+    }
+    overrides.minConfidence = value;
+  }
+
+  const excluded = getHeader(headers, 'x-anonamoose-categories-exclude');
+  if (excluded !== undefined) {
+    const categories = parseList(excluded.toUpperCase());
+    const invalid = categories.filter(c => !CATEGORY_REGEX.test(c));
+    if (invalid.length > 0) {
+      throw new ProxyError(`Invalid x-anonamoose-categories-exclude "${invalid.join(', ')}"`);
+    }
+    overrides.excludeCategories = categories;
+  }
+
+  return overrides;
+}
+
+/**
+ * Normalize a list of categories for format-preserving encryption: upper-cased and
+ * de-duplicated. Returns null unless it is an array of regex pattern categories.
+ */
+export function normalizeFpeCategories(value: unknown): string[] | null {
+  if (!Array.isArray(value)) return null;
+  const categories = value.map(c => (typeof c === 'string' ? c.trim().toUpperCase() : c)).filter(c => c !== '');
+  if (!categories.every(c => typeof c === 'string' && FPE_CATEGORIES.has(c))) return null;
+  return [...new Set(categories as string[])];
+}
+
+/**
+ * Normalize a `categoryOperators` map: keys upper-cased, in their original order. Returns
+ * null unless it is an object of category names or globs to known operators.
+ */
+export function normalizeCategoryOperators(value: unknown): Record<string, Operator> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const operators: Record<string, Operator> = {};
+  for (const [key, operator] of Object.entries(value)) {
+    const category = key.trim().toUpperCase();
+    if (!CATEGORY_GLOB_REGEX.test(category) || !OPERATORS.includes(operator)) return null;
+    operators[category] = operator;
+  }
+  return operators;
+}
@@ -0,0 +1,269 @@
+import type { SqliteDatabase } from '../core/database.js';
+
+export const PROVIDER_TYPES = ['openai', 'anthropic', 'azure', 'gemini', 'ollama', 'bedrock'] as const;
+
+export type ProviderType = typeof PROVIDER_TYPES[number];
+
+/**
+ * One upstream in a provider pool. Requests go to the lowest `priority` group that is
+ * healthy, spread across its targets by `weight`.
+ */
+export interface ProviderTarget {
+  baseUrl: string;
+  /** Relative share of traffic within the priority group (default 1) */
+  weight?: number;
+  /** Lower values are tried first (default 0) */
+  priority?: number;
+  /** Upstream credential used instead of the client's */
+  apiKey?: string;
+}
+
+export type ResolvedTarget = ProviderTarget & { weight: number; priority: number };
+
+export interface ProviderConfig {
+  id: string;
+  type: ProviderType;
+  /**
+   * Upstream origin plus any path prefix, without the trailing `/v1`.
+   * For `azure` providers this is the resource endpoint, e.g. https://my-resource.openai.azure.com
+   * When `targets` is set this defaults to the first target and is not used for routing.
+   */
+  baseUrl: string;
+  /** Pool of upstreams to balance across and fail over between */
+  targets?: ProviderTarget[];
+  /** Per-attempt time to response headers, in milliseconds (default 60000) */
+  timeoutMs?: number;
+  /** Retries on 429, 5xx and network errors (default 2) */
+  maxRetries?: number;
+  /**
+   * AWS region used to sign `bedrock` requests. Defaults to the region in a
+   * bedrock-runtime hostname, then AWS_REGION.
+   */
+  region?: string;
+}
+
+// Built-in providers, seeded on first boot. They can be repointed but not deleted.
+// Azure has no built-in: register a provider with id "azure" pointing at your resource endpoint.
+// Neither does Bedrock: register a provider with id "bedrock" pointing at a bedrock-runtime endpoint.
+export const DEFAULT_PROVIDERS: ProviderConfig[] = [
+  { id: 'openai', type: 'openai', baseUrl: 'https://api.openai.com' },
+  { id: 'anthropic', type: 'anthropic', baseUrl: 'https://api.anthropic.com' },
+  { id: 'gemini', type: 'gemini', baseUrl: 'https://generativelanguage.googleapis.com' },
+  { id: 'ollama', type: 'ollama', baseUrl: 'http://localhost:11434' },
+];
+
+const PROVIDER_ID_REGEX = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+const MAX_TARGETS = 16;
+const AWS_REGION_REGEX = /^[a-z]{2}(-[a-z]+)+-\d{1,2}$/;
+const BEDROCK_HOST_REGEX = /^bedrock-runtime(?:-fips)?\.([a-z0-9-]+)\.amazonaws\.com$/;
+
+function validateBaseUrl(field: string, value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return `${field} must be a string`;
+  }
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return `${field} must be a valid URL`;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return `${field} must use http or https`;
+  }
+  if (url.search || url.hash) {
+    return `${field} must not include a query string or fragment`;
+  }
+  return null;
+}
+
+function validateTarget(index: number, target: any): string | null {
+  const field = `targets[${index}]`;
+  if (!target || typeof target !== 'object' || Array.isArray(target)) {
+    return `${field} must be an object`;
+  }
+  const urlError = validateBaseUrl(`${field}.baseUrl`, target.baseUrl);
+  if (urlError) return urlError;
+  if (target.weight !== undefined && (!Number.isInteger(target.weight) || target.weight < 1 || target.weight > 1000)) {
+    return `${field}.weight must be an integer between 1 and 1000`;
+  }
+  if (target.priority !== undefined && (!Number.isInteger(target.priority) || target.priority < 0 || target.priority > 100)) {
+    return `${field}.priority must be an integer between 0 and 100`;
+  }
+  if (target.apiKey !== undefined && (typeof target.apiKey !== 'string' || !target.apiKey)) {
+    return `${field}.apiKey must be a non-empty string`;
+  }
+  return null;
+}
+
+/**
+ * Validate a provider definition from the management API.
+ * Returns an error message, or null if the definition is valid.
+ */
+export function validateProvider(id: string, body: any): string | null {
+  if (!PROVIDER_ID_REGEX.test(id)) {
+    return 'provider id must be 1-64 characters of letters, digits, "-" or "_"';
+  }
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return 'provider must be a non-null object';
+  }
+  if (!PROVIDER_TYPES.includes(body.type)) {
+    return `type must be one of: ${PROVIDER_TYPES.join(', ')}`;
+  }
+  if (body.targets !== undefined) {
+    if (!Array.isArray(body.targets) || body.targets.length === 0 || body.targets.length > MAX_TARGETS) {
+      return `targets must be an array of 1-${MAX_TARGETS} targets`;
+    }
+    for (let i = 0; i < body.targets.length; i++) {
+      const error = validateTarget(i, body.targets[i]);
+      if (error) return error;
+    }
+  }
+  // baseUrl may be omitted when a target pool is given
+  if (body.baseUrl !== undefined || body.targets === undefined) {
+    const error = validateBaseUrl('baseUrl', body.baseUrl);
+    if (error) return error;
+  }
+  if (body.timeoutMs !== undefined && (!Number.isInteger(body.timeoutMs) || body.timeoutMs < 1000 || body.timeoutMs > 600_000)) {
+    return 'timeoutMs must be an integer between 1000 and 600000';
+  }
+  if (body.maxRetries !== undefined && (!Number.isInteger(body.maxRetries) || body.maxRetries < 0 || body.maxRetries > 10)) {
+    return 'maxRetries must be an integer between 0 and 10';
+  }
+  if (body.region !== undefined && (typeof body.region !== 'string' || !AWS_REGION_REGEX.test(body.region))) {
+    return 'region must be an AWS region such as us-east-1';
+  }
+  return null;
+}
+
+export class ProviderRegistry {
+  private db: SqliteDatabase;
+
+  constructor(db: SqliteDatabase) {
+    this.db = db;
+    this.seedDefaults();
+  }
+
+  private seedDefaults(): void {
+    const insert = this.db.prepare(
+      'INSERT OR IGNORE INTO providers (id, data, updated_at) VALUES (?, ?, ?)'
+    );
+    const now = new Date().toISOString();
+    const seed = this.db.transaction(() => {
+      for (const provider of DEFAULT_PROVIDERS) {
+        insert.run(provider.id, JSON.stringify(provider), now);
+      }
+    });
+    seed();
+  }
+
+  static isBuiltIn(id: string): boolean {
+    return DEFAULT_PROVIDERS.some(p => p.id === id);
+  }
+
+  get(id: string): ProviderConfig | null {
+    const row = this.db.prepare('SELECT data FROM providers WHERE id = ?').get(id) as { data: string } | undefined;
+    if (!row) return null;
+    try {
+      return JSON.parse(row.data);
+    } catch {
+      return null;
+    }
+  }
+
+  list(): ProviderConfig[] {
+    const rows = this.db.prepare('SELECT data FROM providers ORDER BY id').all() as { data: string }[];
+    const providers: ProviderConfig[] = [];
+    for (const row of rows) {
+      try {
+        providers.push(JSON.parse(row.data));
+      } catch {
+        // Skip invalid data
+      }
+    }
+    return providers;
+  }
+
+  set(provider: Omit<ProviderConfig, 'baseUrl'> & { baseUrl?: string }): ProviderConfig {
+    const targets = provider.targets?.map(({ baseUrl, weight, priority, apiKey }) => ({
+      baseUrl: baseUrl.replace(/\/+$/, ''),
+      weight,
+      priority,
+      apiKey,
+    }));
+    const normalized: ProviderConfig = {
+      ...provider,
+      baseUrl: (provider.baseUrl ?? targets![0].baseUrl).replace(/\/+$/, ''),
+      ...(targets ? { targets } : {}),
+    };
+    this.db.prepare(
+      'INSERT INTO providers (id, data, updated_at) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at'
+    ).run(normalized.id, JSON.stringify(normalized), new Date().toISOString());
+    return normalized;
+  }
+
+  remove(id: string): boolean {
+    const result = this.db.prepare('DELETE FROM providers WHERE id = ?').run(id);
+    return result.changes > 0;
+  }
+}
+
+/**
+ * The upstream targets of a provider: its pool, or its baseUrl as a single target.
+ */
+export function getProviderTargets(provider: ProviderConfig): ResolvedTarget[] {
+  const targets: ProviderTarget[] = provider.targets?.length ? provider.targets : [{ baseUrl: provider.baseUrl }];
+  return targets.map(t => ({ ...t, weight: t.weight ?? 1, priority: t.priority ?? 0 }));
+}
+
+/**
+ * The AWS region to sign a Bedrock request to `baseUrl` for.
+ */
+export function resolveAwsRegion(provider: ProviderConfig, baseUrl: string): string {
+  if (provider.region) return provider.region;
+  const match = BEDROCK_HOST_REGEX.exec(new URL(baseUrl).hostname);
+  return match?.[1] || process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION || 'us-east-1';
+}
+
+/**
+ * A provider as returned by the management API, with target API keys withheld.
+ */
+export function toPublicProvider(provider: ProviderConfig): ProviderConfig & { targets?: Array<ProviderTarget & { hasApiKey?: boolean }> } {
+  if (!provider.targets) return provider;
+  return {
+    ...provider,
+    targets: provider.targets.map(({ apiKey, ...target }) => (apiKey ? { ...target, hasApiKey: true } : target)),
+  };
+}
+
+/**
+ * Swap the client's credential for a target's own API key, using the auth scheme of the
+ * provider type. Gemini keys sent as `?key=` are moved to the x-goog-api-key header.
+ */
+export function withTargetCredentials(
+  type: ProviderType,
+  path: string,
+  headers: Record<string, string>,
+  apiKey: string
+): { path: string; headers: Record<string, string> } {
+  const { Authorization, 'x-api-key': _xApiKey, 'api-key': _apiKey, 'x-goog-api-key': _googKey, ...rest } = headers;
+
+  switch (type) {
+    case 'openai':
+      return { path, headers: { ...rest, 'Authorization': `Bearer ${apiKey}` } };
+    case 'anthropic':
+      return { path, headers: { ...rest, 'x-api-key': apiKey } };
+    case 'azure':
+      return { path, headers: { ...rest, 'api-key': apiKey } };
+    case 'ollama':
+    case 'bedrock':
+      // Bedrock API keys are bearer tokens and replace SigV4 signing
+      return { path, headers: { ...rest, 'Authorization': `Bearer ${apiKey}` } };
+    case 'gemini': {
+      const [pathname, query] = path.split('?');
+      const params = new URLSearchParams(query ?? '');
+      params.delete('key');
+      const search = params.toString();
+      return { path: search ? `${pathname}?${search}` : pathname, headers: { ...rest, 'x-goog-api-key': apiKey } };
+    }
+  }
+}
@@ -1,4 +1,5 @@
-import { timingSafeEqual, createHash } from 'crypto';
+import { timingSafeEqual, createHash, randomBytes } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
 import path from 'path';
 import fs from 'fs';
 import express, { Request, Response, NextFunction } from 'express';
@@ -6,12 +7,33 @@ import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import { v4 as uuidv4 } from 'uuid';
-import type { ProxyConfig, ChatMessage, RedactionConfig } from '../core/types.js';
+import type { ProxyConfig, ChatMessage, ContentBlock, PIIDetection, RedactionConfig, RedactionResult } from '../core/types.js';
 import { RedactionPipeline } from '../core/redaction/pipeline.js';
+import { PLACEHOLDER_STYLES, TYPED_PREFIX, TYPED_SUFFIX } from '../core/redaction/tokenizer.js';
 import { DictionaryService } from '../core/redaction/dictionary.js';
 import { NERLayer } from '../core/redaction/ner-layer.js';
-import { RehydrationStore } from '../core/rehydration/store.js';
+import { RehydrationStore, type TokenEntry } from '../core/rehydration/store.js';
+import { deriveSessionId, getConversationPrefix } from '../core/rehydration/session-id.js';
+import { StreamRehydrator, hydrateValue, replaceTokens, type StreamFormat } from '../core/rehydration/stream-rehydrator.js';
+import { EgressScanner, EGRESS_MODES, type EgressMode } from '../core/redaction/egress.js';
+import { parseFpeKey } from '../core/redaction/fpe.js';
 import { getDatabase, getAllSettings, getSetting, setSetting, closeDatabase, type SqliteDatabase } from '../core/database.js';
+import {
+  ProviderRegistry,
+  validateProvider,
+  getProviderTargets,
+  toPublicProvider,
+  withTargetCredentials,
+  resolveAwsRegion,
+  type ProviderConfig,
+  type ProviderType,
+} from './providers.js';
+import { ProxyError, CircuitOpenError } from './errors.js';
+import { parseRedactionOverrides, normalizeFpeCategories, normalizeCategoryOperators, VALID_LOCALES } from './overrides.js';
+import { OPERATORS } from '../core/redaction/operators.js';
+import { CircuitBreaker, fetchUpstream, orderTargets, DEFAULT_MAX_RETRIES, DEFAULT_TIMEOUT_MS } from './upstream.js';
+import { getAwsCredentialsFromEnv, signRequest } from './sigv4.js';
+import { EventStreamDecoder, encodeJsonEvent, encodeMessage, getHeader } from './eventstream.js';
 
 // Max age for in-memory sessionTokens entries (1 hour)
 const SESSION_TOKEN_TTL_MS = 60 * 60 * 1000;
@@ -32,14 +54,72 @@ interface RequestLogEntry {
   sessionId?: string;
 }
 
+interface TargetHealth {
+  breaker: CircuitBreaker;
+  requests: number;
+  failures: number;
+  lastError: string | null;
+  lastFailureAt: string | null;
+}
+
+interface UpstreamStats {
+  provider: string;
+  baseUrl: string;
+  priority: number;
+  weight: number;
+  state: 'closed' | 'open' | 'half-open';
+  requests: number;
+  failures: number;
+  lastError: string | null;
+  lastFailureAt: string | null;
+}
+
 interface RedactionLogEntry {
   timestamp: string;
-  source: 'api' | 'openai' | 'anthropic';
+  source: 'api' | 'openai' | 'anthropic' | 'azure' | 'gemini' | 'ollama' | 'bedrock';
   sessionId: string;
   redactedPreview: string;
   detections: { type: string; category: string; confidence: number }[];
+  /** Set when the request was refused by the blockCategories policy */
+  blocked?: boolean;
+  /** Set when detections were only recorded (audit mode) and the request was forwarded unredacted */
+  audit?: boolean;
 }
 
+interface RequestContext {
+  /** Redaction overrides from x-anonamoose-* headers */
+  overrides: Partial<RedactionConfig>;
+  /** Redact the body; when false (x-anonamoose-redact) it is only checked against blockCategories */
+  redact: boolean;
+  /** Audit (shadow) mode: run detection and record it, but forward the client's body unchanged */
+  audit: boolean;
+  /** The request body as received, forwarded instead of the redacted body in audit mode */
+  originalBody: unknown;
+  /** Everything detected in the request, summarized in the x-anonamoose-* response headers */
+  detections: PIIDetection[];
+  /** The session's placeholders, read once per request and kept current as values are stored */
+  placeholders?: { sessionId: string; tokens: Map<string, string> };
+  /** Token entries to persist per session, written once before the request is forwarded */
+  pendingTokens: Map<string, TokenEntry[]>;
+  /** Set while the body is checked against blockCategories; redactText only collects detections */
+  policyScan?: PIIDetection[];
+}
+
+const SSE_EVENT_BOUNDARY = /\r?\n\r?\n/;
+
+// Response headers set on proxied responses; exposed to browser clients through CORS
+const SUMMARY_HEADERS = ['x-anonamoose-session', 'x-anonamoose-detections', 'x-anonamoose-categories', 'x-anonamoose-layers'];
+
+// Response keys holding identifiers or metadata, never model-written text; the egress scan skips them
+const EGRESS_SKIP_KEYS = /^(id|embedding|.*_id|.*Id|model|modelVersion|object|type|role|name|status|signature|system_fingerprint|.*_reason|.*Reason|created_at|createdAt)$/;
+
+// Sent upstream when the client does not specify an anthropic-version header
+const ANTHROPIC_DEFAULT_VERSION = '2023-06-01';
+
+const FPE_CATEGORIES_ERROR = 'fpeCategories must be an array of regex pattern categories, e.g. ["AU_TFN", "IBAN"]';
+const FPE_KEY_ERROR = 'fpeCategories requires the FPE_KEY environment variable';
+const CATEGORY_OPERATORS_ERROR = `categoryOperators must map categories or globs to one of: ${OPERATORS.join(', ')}`;
+
 const MAX_LOG_ENTRIES = 500;
 const MAX_REDACTION_LOG = 100;
 const REDACTION_LOG_TTL_MS = 15 * 60 * 1000; // 15 minutes
@@ -49,6 +129,15 @@ export class ProxyServer {
   private db: SqliteDatabase;
   private redactionPipeline: RedactionPipeline;
   private rehydrationStore: RehydrationStore;
+  private providers: ProviderRegistry;
+  // Per-provider target health (indexed like the provider's targets), created on first use
+  private targetHealth: Map<string, TargetHealth[]> = new Map();
+  private sessionSecret: string;
+  private hasSessionSecret: boolean;
+  private warnedSessionSecret = false;
+  private fpeKey: Buffer | null;
+  // Per-request redaction context, visible to every redactText call and to forwardToUpstream
+  private requestContext = new AsyncLocalStorage<RequestContext>();
   private sessionTokens: Map<string, SessionTokenEntry> = new Map();
   private sessionCleanupTimer: ReturnType<typeof setInterval>;
   private requestLog: RequestLogEntry[] = [];
@@ -56,6 +145,9 @@ export class ProxyServer {
   private stats = {
     requestsRedacted: 0,
     requestsHydrated: 0,
+    requestsBlocked: 0,
+    requestsAudited: 0,
+    egressDetections: 0,
     piiDetected: 0,
     dictionaryHits: 0,
     regexHits: 0,
@@ -69,6 +161,14 @@ export class ProxyServer {
 
     this.db = getDatabase(config.dbPath);
     this.rehydrationStore = new RehydrationStore(this.db);
+    this.providers = new ProviderRegistry(this.db);
+    // Keys derived session IDs; without SESSION_SECRET they are only stable until restart
+    this.sessionSecret = process.env.SESSION_SECRET || randomBytes(32).toString('hex');
+    this.hasSessionSecret = !!process.env.SESSION_SECRET;
+    // Key for fpeCategories; a malformed key fails startup rather than leaving values unencrypted
+    this.fpeKey = parseFpeKey(process.env.FPE_KEY);
+    const fpeKey = this.fpeKey;
+    const hashKey = process.env.HASH_SECRET || null;
 
     const dictionary = new DictionaryService(this.db);
     const db = this.db;
@@ -85,6 +185,11 @@ export class ProxyServer {
         tokenizePlaceholders: s.tokenizePlaceholders ?? true,
         placeholderPrefix: s.placeholderPrefix ?? '\uE000',
         placeholderSuffix: s.placeholderSuffix ?? '\uE001',
+        placeholderStyle: s.placeholderStyle ?? 'opaque',
+        fpeCategories: s.fpeCategories ?? [],
+        fpeKey,
+        categoryOperators: s.categoryOperators ?? {},
+        hashKey,
       };
     });
 
@@ -107,7 +212,8 @@ export class ProxyServer {
     source: RedactionLogEntry['source'],
     sessionId: string,
     redactedText: string,
-    detectedPII: { type: string; category: string; confidence: number }[]
+    detectedPII: { type: string; category: string; confidence: number }[],
+    flags: { blocked?: boolean; audit?: boolean } = {}
   ): void {
     // Expire old entries
     const cutoff = Date.now() - REDACTION_LOG_TTL_MS;
@@ -119,6 +225,8 @@ export class ProxyServer {
       sessionId,
       redactedPreview: redactedText.length > 500 ? redactedText.slice(0, 500) + '...' : redactedText,
       detections: detectedPII,
+      ...(flags.blocked ? { blocked: true } : {}),
+      ...(flags.audit ? { audit: true } : {}),
     });
 
     if (this.redactionLog.length > MAX_REDACTION_LOG) {
@@ -132,7 +240,7 @@ export class ProxyServer {
       console.log(`${req.method} ${req.path} [${req.ip}]`);
       const originalEnd = res.end.bind(res);
       res.end = ((...args: any[]) => {
-        const mgmtPrefixes = ['/api/v1/logs', '/api/v1/sessions', '/api/v1/redactions', '/api/v1/stats', '/api/v1/settings', '/logs', '/sessions', '/redactions', '/stats', '/settings', '/health', '/_next/', '/favicon'];
+        const mgmtPrefixes = ['/api/v1/logs', '/api/v1/sessions', '/api/v1/redactions', '/api/v1/stats', '/api/v1/settings', '/api/v1/providers', '/logs', '/sessions', '/redactions', '/stats', '/settings', '/providers', '/health', '/_next/', '/favicon'];
         if (!mgmtPrefixes.some(p => req.path.startsWith(p))) {
           this.addLogEntry({
             timestamp: new Date().toISOString(),
@@ -153,6 +261,7 @@ export class ProxyServer {
     }));
     this.app.use(cors({
       origin: process.env.CORS_ORIGIN || false,
+      exposedHeaders: SUMMARY_HEADERS,
     }));
     this.app.use(express.json({ limit: '1mb' }));
     this.app.use(rateLimit({
@@ -211,22 +320,39 @@ export class ProxyServer {
       res.json({ status: 'ok', timestamp: new Date().toISOString() });
     });
 
+    // Proxy routes are mounted twice: at the root for the built-in providers,
+    // and under /p/:provider so a client can target any registered provider by base URL
+    const proxy = express.Router({ mergeParams: true });
+
+    // Only the redacting routes read x-anonamoose-* overrides; passthrough routes and the
+    // management API never see them
+    const redactionContext = (req: Request, res: Response, next: NextFunction) => {
+      let overrides: Partial<RedactionConfig>;
+      try {
+        overrides = parseRedactionOverrides(req.headers);
+      } catch (err) {
+        this.sendError(res, err);
+        return;
+      }
+      this.requestContext.run({ overrides, redact: this.shouldRedact(req), audit: this.isAuditMode(req), originalBody: req.body, detections: [], pendingTokens: new Map() }, next);
+    };
+
     // Handle requests without /v1 prefix (some clients strip it from base URL)
-    this.app.post('/chat/completions', (req: Request, res: Response) => {
+    proxy.post('/chat/completions', redactionContext, (req: Request, res: Response) => {
       this.handleOpenAI(req, res).catch((err) => {
         console.error('OpenAI handler error:', err.message);
         if (!res.headersSent) this.sendError(res, err);
       });
     });
-    this.app.post('/messages', (req: Request, res: Response) => {
+    proxy.post('/messages', redactionContext, (req: Request, res: Response) => {
       this.handleAnthropic(req, res).catch((err) => {
         console.error('Anthropic handler error:', err.message);
-        if (!res.headersSent) this.sendError(res, err);
+        if (!res.headersSent) this.sendError(res, err, 'anthropic');
       });
     });
 
     // Redact + proxy: chat completions (OpenAI-compatible)
-    this.app.post('/v1/chat/completions', (req: Request, res: Response) => {
+    proxy.post('/v1/chat/completions', redactionContext, (req: Request, res: Response) => {
       this.handleOpenAI(req, res).catch((err) => {
         console.error('OpenAI handler error:', err.message);
         if (!res.headersSent) this.sendError(res, err);
@@ -234,9 +360,81 @@ export class ProxyServer {
     });
 
     // Redact + proxy: Anthropic messages
-    this.app.post('/v1/messages', (req: Request, res: Response) => {
+    proxy.post('/v1/messages', redactionContext, (req: Request, res: Response) => {
       this.handleAnthropic(req, res).catch((err) => {
         console.error('Anthropic handler error:', err.message);
+        if (!res.headersSent) this.sendError(res, err, 'anthropic');
+      });
+    });
+
+    // Redact + proxy: OpenAI Responses API
+    const responsesHandler = (req: Request, res: Response) => {
+      this.handleOpenAIResponses(req, res).catch((err) => {
+        console.error('OpenAI Responses handler error:', err.message);
+        if (!res.headersSent) this.sendError(res, err);
+      });
+    };
+    proxy.post('/v1/responses', redactionContext, responsesHandler);
+    proxy.post('/responses', redactionContext, responsesHandler);
+
+    // Redact + proxy: embeddings (no hydration — the response is vectors)
+    const embeddingsHandler = (req: Request, res: Response) => {
+      this.handleOpenAIEmbeddings(req, res).catch((err) => {
+        console.error('OpenAI embeddings handler error:', err.message);
+        if (!res.headersSent) this.sendError(res, err);
+      });
+    };
+    proxy.post('/v1/embeddings', redactionContext, embeddingsHandler);
+    proxy.post('/embeddings', redactionContext, embeddingsHandler);
+
+    // Redact + proxy: Azure OpenAI deployment-style chat completions
+    proxy.post('/openai/deployments/:deployment/chat/completions', redactionContext, (req: Request, res: Response) => {
+      this.handleAzureOpenAI(req, res).catch((err) => {
+        console.error('Azure OpenAI handler error:', err.message);
+        if (!res.headersSent) this.sendError(res, err);
+      });
+    });
+
+    // Redact + proxy: Gemini generateContent / streamGenerateContent
+    // (`:target` is "<model>:<method>"; other model methods fall through)
+    const geminiMethod = (req: Request) => req.params.target.slice(req.params.target.lastIndexOf(':') + 1);
+    const geminiRoute = (req: Request, res: Response, next: NextFunction) => {
+      const method = geminiMethod(req);
+      next(method === 'generateContent' || method === 'streamGenerateContent' ? undefined : 'route');
+    };
+    const geminiHandler = (req: Request, res: Response) => {
+      this.handleGemini(req, res, geminiMethod(req) === 'streamGenerateContent').catch((err) => {
+        console.error('Gemini handler error:', err.message);
+        if (!res.headersSent) this.sendError(res, err);
+      });
+    };
+    proxy.post('/v1beta/models/:target', geminiRoute, redactionContext, geminiHandler);
+    proxy.post('/v1/models/:target', geminiRoute, redactionContext, geminiHandler);
+
+    // Redact + proxy: Ollama native chat and generate
+    proxy.post('/api/chat', redactionContext, (req: Request, res: Response) => {
+      this.handleOllama(req, res, 'chat').catch((err) => {
+        console.error('Ollama handler error:', err.message);
+        if (!res.headersSent) this.sendError(res, err);
+      });
+    });
+    proxy.post('/api/generate', redactionContext, (req: Request, res: Response) => {
+      this.handleOllama(req, res, 'generate').catch((err) => {
+        console.error('Ollama handler error:', err.message);
+        if (!res.headersSent) this.sendError(res, err);
+      });
+    });
+
+    // Redact + proxy: AWS Bedrock Converse / ConverseStream
+    proxy.post('/model/:modelId/converse', redactionContext, (req: Request, res: Response) => {
+      this.handleBedrock(req, res, false).catch((err) => {
+        console.error('Bedrock handler error:', err.message);
+        if (!res.headersSent) this.sendError(res, err);
+      });
+    });
+    proxy.post('/model/:modelId/converse-stream', redactionContext, (req: Request, res: Response) => {
+      this.handleBedrock(req, res, true).catch((err) => {
+        console.error('Bedrock handler error:', err.message);
         if (!res.headersSent) this.sendError(res, err);
       });
     });
@@ -248,9 +446,12 @@ export class ProxyServer {
         if (!res.headersSent) this.sendError(res, err);
       });
     };
-    this.app.all('/v1/*', openaiPassthrough);
-    this.app.all('/models', openaiPassthrough);
-    this.app.all('/embeddings', openaiPassthrough);
+    proxy.all('/v1/*', openaiPassthrough);
+    proxy.all('/models', openaiPassthrough);
+    proxy.all('/embeddings', openaiPassthrough);
+
+    this.app.use('/p/:provider', proxy);
+    this.app.use(proxy);
 
     // Redaction endpoint — requires auth
     this.app.post('/api/v1/redact', (req: Request, res: Response) => {
@@ -277,9 +478,10 @@ export class ProxyServer {
     // Serve HTML pages for UI routes
     this.app.get('*', (req: Request, res: Response) => {
       // Don't serve HTML for API/proxy routes
-      if (req.path.startsWith('/api/') || req.path.startsWith('/v1/') ||
+      if (req.path.startsWith('/api/') || req.path.startsWith('/v1/') || req.path.startsWith('/v1beta/') ||
+          req.path.startsWith('/p/') || req.path.startsWith('/openai/') ||
           req.path === '/health' || req.path === '/chat/completions' ||
-          req.path === '/messages' || req.path === '/models' ||
+          req.path === '/messages' || req.path === '/responses' || req.path === '/models' ||
           req.path === '/embeddings') {
         res.status(404).json({ error: 'Not found' });
         return;
@@ -381,7 +583,9 @@ export class ProxyServer {
         const ALLOWED_KEYS = new Set([
           'enableDictionary', 'enableRegex', 'enableNames', 'enableNER',
           'nerModel', 'nerMinConfidence', 'locale',
-          'tokenizePlaceholders', 'placeholderPrefix', 'placeholderSuffix',
+          'tokenizePlaceholders', 'placeholderPrefix', 'placeholderSuffix', 'placeholderStyle',
+          'blockCategories', 'auditMode', 'egressScan', 'conversationSessions', 'fpeCategories',
+          'categoryOperators',
         ]);
 
         // Allowlist of permitted NER models
@@ -402,6 +606,73 @@ export class ProxyServer {
           return;
         }
 
+        if ('auditMode' in settings && typeof settings.auditMode !== 'boolean') {
+          res.status(400).json({ error: 'auditMode must be a boolean' });
+          return;
+        }
+
+        if ('conversationSessions' in settings && typeof settings.conversationSessions !== 'boolean') {
+          res.status(400).json({ error: 'conversationSessions must be a boolean' });
+          return;
+        }
+
+        if ('placeholderStyle' in settings && !PLACEHOLDER_STYLES.includes(settings.placeholderStyle)) {
+          res.status(400).json({ error: `placeholderStyle must be one of: ${PLACEHOLDER_STYLES.join(', ')}` });
+          return;
+        }
+
+        // Typed labels (also the surrogate style's fallback) must be readable and delimited:
+        // the invisible PUA defaults become brackets, and an empty prefix or suffix is refused
+        const style = settings.placeholderStyle ?? getSetting<string>(this.db, 'placeholderStyle');
+        if (style === 'typed' || style === 'surrogate') {
+          const prefix = settings.placeholderPrefix ?? getSetting<string>(this.db, 'placeholderPrefix') ?? '\uE000';
+          const suffix = settings.placeholderSuffix ?? getSetting<string>(this.db, 'placeholderSuffix') ?? '\uE001';
+          if (prefix === '' || suffix === '') {
+            res.status(400).json({ error: `placeholderPrefix and placeholderSuffix must not be empty with the ${style} style` });
+            return;
+          }
+          if (prefix === '\uE000') settings.placeholderPrefix = TYPED_PREFIX;
+          if (suffix === '\uE001') settings.placeholderSuffix = TYPED_SUFFIX;
+        }
+
+        if ('egressScan' in settings && !EGRESS_MODES.includes(settings.egressScan)) {
+          res.status(400).json({ error: `egressScan must be one of: ${EGRESS_MODES.join(', ')}` });
+          return;
+        }
+
+        if ('blockCategories' in settings) {
+          const categories = Array.isArray(settings.blockCategories)
+            ? settings.blockCategories.map((c: unknown) => (typeof c === 'string' ? c.trim().toUpperCase() : c)).filter((c: unknown) => c !== '')
+            : null;
+          if (!categories || !categories.every((c: unknown) => typeof c === 'string' && /^[A-Z0-9_]{1,64}$/.test(c))) {
+            res.status(400).json({ error: 'blockCategories must be an array of category names, e.g. ["CREDIT_CARD"]' });
+            return;
+          }
+          settings.blockCategories = [...new Set(categories)];
+        }
+
+        if ('fpeCategories' in settings) {
+          const categories = normalizeFpeCategories(settings.fpeCategories);
+          if (!categories) {
+            res.status(400).json({ error: FPE_CATEGORIES_ERROR });
+            return;
+          }
+          if (categories.length > 0 && !this.fpeKey) {
+            res.status(400).json({ error: FPE_KEY_ERROR });
+            return;
+          }
+          settings.fpeCategories = categories;
+        }
+
+        if ('categoryOperators' in settings) {
+          const operators = normalizeCategoryOperators(settings.categoryOperators);
+          if (!operators) {
+            res.status(400).json({ error: CATEGORY_OPERATORS_ERROR });
+            return;
+          }
+          settings.categoryOperators = operators;
+        }
+
         const oldModel = getSetting<string>(this.db, 'nerModel');
 
         for (const [key, value] of Object.entries(settings)) {
@@ -421,6 +692,59 @@ export class ProxyServer {
       }
     });
 
+    // Upstream provider registry
+    api.get('/providers', (req: Request, res: Response) => {
+      try {
+        res.json({ providers: this.providers.list().map(toPublicProvider) });
+      } catch (err: any) {
+        console.error('Providers error:', err);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    api.get('/providers/:id', (req: Request, res: Response) => {
+      const provider = this.providers.get(req.params.id);
+      if (!provider) {
+        res.status(404).json({ error: `Provider "${req.params.id}" not found` });
+        return;
+      }
+      res.json(toPublicProvider(provider));
+    });
+
+    api.put('/providers/:id', (req: Request, res: Response) => {
+      try {
+        const { id } = req.params;
+        const error = validateProvider(id, req.body);
+        if (error) {
+          res.status(400).json({ error });
+          return;
+        }
+
+        const { type, baseUrl, targets, timeoutMs, maxRetries, region } = req.body;
+        const provider = this.providers.set({ id, type, baseUrl, targets, timeoutMs, maxRetries, region });
+        // A repointed provider starts with fresh target health
+        this.targetHealth.delete(id);
+        res.json({ success: true, provider: toPublicProvider(provider) });
+      } catch (err: any) {
+        console.error('Providers error:', err);
+        res.status(500).json({ error: 'Internal server error' });
+      }
+    });
+
+    api.delete('/providers/:id', (req: Request, res: Response) => {
+      const { id } = req.params;
+      if (ProviderRegistry.isBuiltIn(id)) {
+        res.status(400).json({ error: `Built-in provider "${id}" cannot be deleted` });
+        return;
+      }
+      if (!this.providers.remove(id)) {
+        res.status(404).json({ error: `Provider "${id}" not found` });
+        return;
+      }
+      this.targetHealth.delete(id);
+      res.json({ success: true });
+    });
+
     api.get('/dictionary', (req: Request, res: Response) => {
       const dictionary = (this.redactionPipeline as any).getDictionary() as DictionaryService;
       let entries = dictionary.list();
@@ -475,6 +799,14 @@ export class ProxyServer {
           res.status(400).json({ error: 'term must be 1000 characters or fewer' });
           return;
         }
+        if (e.replacement != null && (typeof e.replacement !== 'string' || e.replacement.length > 1000)) {
+          res.status(400).json({ error: 'replacement must be a string of 1000 characters or fewer' });
+          return;
+        }
+        if (e.reversible !== undefined && typeof e.reversible !== 'boolean') {
+          res.status(400).json({ error: 'reversible must be a boolean' });
+          return;
+        }
       }
 
       const dictionary = (this.redactionPipeline as any).getDictionary() as DictionaryService;
@@ -490,7 +822,8 @@ export class ProxyServer {
       const formatted = entries.map((e: any) => ({
         id: e.id || uuidv4(),
         term: e.term.trim(),
-        replacement: e.replacement,
+        replacement: e.replacement || undefined,
+        reversible: e.reversible ?? true,
         caseSensitive: e.caseSensitive ?? false,
         wholeWord: e.wholeWord ?? false,
         enabled: true,
@@ -561,7 +894,8 @@ export class ProxyServer {
           activeSessions,
           storageConnected: storeStats.storageConnected,
           dictionarySize: ((this.redactionPipeline as any).getDictionary() as DictionaryService).size(),
-          storage: storageStats
+          storage: storageStats,
+          upstreams: this.getUpstreamStats()
         });
       } catch (err: any) {
         console.error('API error:', err);
@@ -797,14 +1131,84 @@ export class ProxyServer {
     if (header && ProxyServer.SESSION_ID_REGEX.test(header)) {
       return header;
     }
+
+    // Clients that resend the whole history get the same session on every turn. Without a
+    // credential (e.g. Ollama) every client would derive the same sessions, so none is derived.
+    if (getSetting<boolean>(this.db, 'conversationSessions') === true) {
+      const credential = this.getClientCredential(req);
+      const prefix = getConversationPrefix(req.body);
+      if (credential && prefix !== null) {
+        return deriveSessionId(this.sessionSecret, 'conversation', credential, prefix);
+      }
+    }
     return uuidv4();
   }
 
+  /**
+   * Whatever credential the client sent, used only to key derived sessions per client.
+   */
+  private getClientCredential(req: Request): string {
+    for (const name of ['authorization', 'x-api-key', 'x-goog-api-key']) {
+      const value = req.headers[name];
+      if (typeof value === 'string' && value) return value;
+    }
+    return typeof req.query.key === 'string' ? req.query.key : '';
+  }
+
+  /**
+   * Resolve the upstream provider for a request: the /p/:provider path prefix wins,
+   * then the x-anonamoose-provider header, then the built-in default for the route.
+   */
+  private getProvider(req: Request, defaultId: string, type: ProviderType): ProviderConfig {
+    const header = req.headers['x-anonamoose-provider'];
+    const id = req.params.provider || (typeof header === 'string' && header) || defaultId;
+
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new ProxyError(`Unknown provider "${id}"`, 404);
+    }
+    if (provider.type !== type) {
+      throw new ProxyError(`Provider "${id}" is not an ${type} provider`);
+    }
+    return provider;
+  }
+
   private shouldRedact(req: Request): boolean {
     const header = req.headers['x-anonamoose-redact'];
     return typeof header !== 'string' || header.toLowerCase() !== 'false';
   }
 
+  /**
+   * Whether to walk the request body through redactText: to redact it, or only to enforce
+   * blockCategories when the client turned redaction off.
+   */
+  private shouldScan(req: Request): boolean {
+    return this.shouldRedact(req) || this.getBlockCategories().size > 0;
+  }
+
+  private getBlockCategories(): Set<string> {
+    return new Set((getSetting<string[]>(this.db, 'blockCategories') ?? []).map(c => c.toUpperCase()));
+  }
+
+  /**
+   * Audit mode from the x-anonamoose-audit header, falling back to the auditMode setting.
+   */
+  private isAuditMode(req: Request): boolean {
+    const header = req.headers['x-anonamoose-audit'];
+    if (typeof header === 'string' && ['true', 'false'].includes(header.toLowerCase())) {
+      return header.toLowerCase() === 'true';
+    }
+    return getSetting<boolean>(this.db, 'auditMode') === true;
+  }
+
+  /** Count a redacted request, or an audited one when it will be forwarded unredacted */
+  private countRedactedRequest(): void {
+    const context = this.requestContext.getStore();
+    if (context?.redact === false) return;
+    if (context?.audit) this.stats.requestsAudited++;
+    else this.stats.requestsRedacted++;
+  }
+
   private shouldHydrate(req: Request): boolean {
     const header = req.headers['x-anonamoose-hydrate'];
     return typeof header !== 'string' || header.toLowerCase() !== 'false';
@@ -812,7 +1216,7 @@ export class ProxyServer {
 
   private async handleRedact(req: Request, res: Response): Promise<void> {
     const sessionId = this.getSessionId(req);
-    const { text, locale } = req.body;
+    const { text, locale, fpeCategories, categoryOperators } = req.body;
 
     if (!text || typeof text !== 'string') {
       res.status(400).json({ error: 'text must be a non-empty string' });
@@ -824,14 +1228,37 @@ export class ProxyServer {
       return;
     }
 
-    const validLocales = ['AU', 'NZ', 'UK', 'US'];
-    if (locale !== undefined && locale !== null && !validLocales.includes(locale)) {
-      res.status(400).json({ error: `Invalid locale. Must be one of: ${validLocales.join(', ')}` });
+    if (locale !== undefined && locale !== null && !VALID_LOCALES.includes(locale)) {
+      res.status(400).json({ error: `Invalid locale. Must be one of: ${VALID_LOCALES.join(', ')}` });
       return;
     }
 
-    const overrides = locale !== undefined ? { locale: locale || null } : undefined;
-    const result = await this.redactionPipeline.redact(text, sessionId, overrides);
+    const overrides: Partial<RedactionConfig> = {};
+    if (locale !== undefined) overrides.locale = locale || null;
+
+    if (fpeCategories !== undefined) {
+      const categories = normalizeFpeCategories(fpeCategories);
+      if (!categories) {
+        res.status(400).json({ error: FPE_CATEGORIES_ERROR });
+        return;
+      }
+      if (categories.length > 0 && !this.fpeKey) {
+        res.status(400).json({ error: FPE_KEY_ERROR });
+        return;
+      }
+      overrides.fpeCategories = categories;
+    }
+
+    if (categoryOperators !== undefined) {
+      const operators = normalizeCategoryOperators(categoryOperators);
+      if (!operators) {
+        res.status(400).json({ error: CATEGORY_OPERATORS_ERROR });
+        return;
+      }
+      overrides.categoryOperators = operators;
+    }
+
+    const result = await this.redactionPipeline.redact(text, sessionId, overrides, await this.getSessionPlaceholders(sessionId));
     this.storeTokens(sessionId, result.tokens);
 
     // Group tokens by type for deduplication
@@ -886,7 +1313,7 @@ export class ProxyServer {
 
   private async handleOpenAI(req: Request, res: Response): Promise<void> {
     const sessionId = this.getSessionId(req);
-    const redact = this.shouldRedact(req);
+    const scan = this.shouldScan(req);
     const hydrate = this.shouldHydrate(req);
     const apiKey = this.getClientApiKey(req);
 
@@ -895,256 +1322,1187 @@ export class ProxyServer {
       return;
     }
 
+    const provider = this.getProvider(req, 'openai', 'openai');
     let requestBody = { ...req.body };
 
-    if (redact && requestBody.messages) {
-      requestBody.messages = await this.redactMessages(requestBody.messages, sessionId);
-      this.stats.requestsRedacted++;
+    if (scan && requestBody.messages) {
+      requestBody = await this.redactBody(requestBody, sessionId, 'openai', async body => {
+        body.messages = await this.redactMessages(body.messages, sessionId);
+        for (const key of ['tools', 'functions']) {
+          if (body[key]) {
+            body[key] = await this.redactToolDefinitions(body[key], sessionId, 'openai');
+          }
+        }
+        return body;
+      });
     }
 
     const upstreamRes = await this.forwardToUpstream(
-      'https://api.openai.com',
+      provider,
       '/v1/chat/completions',
       requestBody,
-      apiKey
+      { 'Authorization': `Bearer ${apiKey}` },
+      this.getClientSignal(res)
     );
 
-    if (requestBody.stream) {
-      await this.handleStreaming(upstreamRes, res, sessionId, hydrate);
+    await this.relayResponse(upstreamRes, res, sessionId, hydrate, !!requestBody.stream);
+  }
+
+  /**
+   * Build upstream headers for Anthropic, forwarding the same auth scheme the client used
+   * (the SDKs send x-api-key) and its anthropic-version / anthropic-beta headers.
+   */
+  private getAnthropicAuthHeaders(req: Request): Record<string, string> | null {
+    let headers: Record<string, string>;
+    const apiKey = req.headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey) {
+      headers = { 'x-api-key': apiKey };
     } else {
-      let responseBody = await this.parseBody(upstreamRes);
+      const bearer = this.getClientApiKey(req);
+      if (!bearer) return null;
+      headers = { 'Authorization': `Bearer ${bearer}` };
+    }
 
-      if (hydrate) {
-        responseBody = await this.hydrateResponse(responseBody, sessionId);
-        this.stats.requestsHydrated++;
-      }
+    const version = req.headers['anthropic-version'];
+    headers['anthropic-version'] = typeof version === 'string' && version ? version : ANTHROPIC_DEFAULT_VERSION;
 
-      res.status(upstreamRes.status).json(responseBody);
+    const beta = req.headers['anthropic-beta'];
+    if (beta) {
+      headers['anthropic-beta'] = Array.isArray(beta) ? beta.join(',') : beta;
     }
+    return headers;
   }
 
   private async handleAnthropic(req: Request, res: Response): Promise<void> {
     const sessionId = this.getSessionId(req);
-    const redact = this.shouldRedact(req);
+    const scan = this.shouldScan(req);
     const hydrate = this.shouldHydrate(req);
-    const apiKey = this.getClientApiKey(req);
+    const authHeaders = this.getAnthropicAuthHeaders(req);
 
-    if (!apiKey) {
-      res.status(401).json({ error: 'Missing API key. Provide Bearer token in Authorization header.' });
+    if (!authHeaders) {
+      res.status(401).json({ error: 'Missing API key. Provide an x-api-key header or Bearer token in Authorization header.' });
       return;
     }
 
+    const provider = this.getProvider(req, 'anthropic', 'anthropic');
     let requestBody = { ...req.body };
 
-    if (redact) {
-      if (typeof requestBody.system === 'string') {
-        const systemResult = await this.redactionPipeline.redact(requestBody.system, sessionId);
-        this.storeTokens(sessionId, systemResult.tokens);
-        const tokensByType = new Map<string, Map<string, string>>();
-        for (const [token, original] of systemResult.tokens) {
-          const pii = systemResult.detectedPII.find(p => p.value === original);
-          const type = pii?.type || 'regex';
-          if (!tokensByType.has(type)) tokensByType.set(type, new Map());
-          tokensByType.get(type)!.set(token, original);
-        }
-        for (const [type, tokens] of tokensByType) {
-          await this.rehydrationStore.store(sessionId, tokens, 3600, type as 'dictionary' | 'regex' | 'names' | 'ner', 'SYSTEM');
+    if (scan) {
+      requestBody = await this.redactBody(requestBody, sessionId, 'anthropic', async body => {
+        if (typeof body.system === 'string') {
+          body.system = await this.redactText(body.system, sessionId, 'anthropic', 'SYSTEM');
+        } else if (Array.isArray(body.system)) {
+          // Block form, typically used to attach cache_control breakpoints
+          body.system = await this.redactContentBlocks(body.system, sessionId, 'anthropic', 'SYSTEM');
         }
-        requestBody.system = systemResult.redactedText;
-        this.stats.requestsRedacted++;
 
-        if (systemResult.detectedPII.length > 0) {
-          this.addRedactionLogEntry('anthropic', sessionId, systemResult.redactedText,
-            systemResult.detectedPII.map(d => ({ type: d.type, category: d.category, confidence: d.confidence }))
-          );
+        if (body.messages) {
+          body.messages = await this.redactMessages(body.messages, sessionId, 'anthropic');
         }
-      }
 
-      if (requestBody.messages) {
-        requestBody.messages = await this.redactMessages(requestBody.messages, sessionId, 'anthropic');
-      }
+        if (body.tools) {
+          body.tools = await this.redactToolDefinitions(body.tools, sessionId, 'anthropic');
+        }
+        return body;
+      });
     }
 
     const upstreamRes = await this.forwardToUpstream(
-      'https://api.anthropic.com',
+      provider,
       '/v1/messages',
       requestBody,
-      apiKey,
-      {
-        'anthropic-version': '2023-06-01'
-      }
+      authHeaders,
+      this.getClientSignal(res)
     );
 
-    if (requestBody.stream) {
-      await this.handleStreaming(upstreamRes, res, sessionId, hydrate);
-    } else {
-      let responseBody = await this.parseBody(upstreamRes);
+    await this.relayResponse(upstreamRes, res, sessionId, hydrate, !!requestBody.stream, 'anthropic');
+  }
 
-      if (hydrate) {
-        responseBody = await this.hydrateResponse(responseBody, sessionId);
-        this.stats.requestsHydrated++;
-      }
+  private async handleOpenAIResponses(req: Request, res: Response): Promise<void> {
+    const sessionId = this.getSessionId(req);
+    const scan = this.shouldScan(req);
+    const hydrate = this.shouldHydrate(req);
+    const apiKey = this.getClientApiKey(req);
 
-      res.status(upstreamRes.status).json(responseBody);
+    if (!apiKey) {
+      res.status(401).json({ error: { message: 'Missing API key. Provide Bearer token in Authorization header.', type: 'invalid_request_error' } });
+      return;
     }
-  }
 
-  private async redactMessages(messages: ChatMessage[], sessionId: string, source: RedactionLogEntry['source'] = 'openai'): Promise<ChatMessage[]> {
-    const result: ChatMessage[] = [];
-
-    for (const msg of messages) {
-      if (typeof msg.content === 'string') {
-        const redactionResult = await this.redactionPipeline.redact(msg.content, sessionId);
-        this.storeTokens(sessionId, redactionResult.tokens);
+    const provider = this.getProvider(req, 'openai', 'openai');
+    let requestBody = { ...req.body };
 
-        // Store with deduplication by type
-        const tokensByType = new Map<string, Map<string, string>>();
-        for (const [token, original] of redactionResult.tokens) {
-          const pii = redactionResult.detectedPII.find(p => p.value === original);
-          const type = pii?.type || 'regex';
-          if (!tokensByType.has(type)) tokensByType.set(type, new Map());
-          tokensByType.get(type)!.set(token, original);
-        }
-        for (const [type, tokens] of tokensByType) {
-          await this.rehydrationStore.store(sessionId, tokens, 3600, type as 'dictionary' | 'regex' | 'names' | 'ner', 'MESSAGE');
+    if (scan) {
+      requestBody = await this.redactBody(requestBody, sessionId, 'openai', async body => {
+        if (typeof body.instructions === 'string') {
+          body.instructions = await this.redactText(body.instructions, sessionId, 'openai', 'SYSTEM');
         }
 
-        this.stats.piiDetected += redactionResult.detectedPII.length;
-        for (const pii of redactionResult.detectedPII) {
-          if (pii.type === 'dictionary') this.stats.dictionaryHits++;
-          else if (pii.type === 'regex') this.stats.regexHits++;
-          else if (pii.type === 'names') this.stats.namesHits++;
-          else if (pii.type === 'ner') this.stats.nerHits++;
+        if (typeof body.input === 'string') {
+          body.input = await this.redactText(body.input, sessionId, 'openai');
+        } else if (Array.isArray(body.input)) {
+          const items = [];
+          for (const item of body.input) {
+            items.push(await this.redactResponsesInputItem(item, sessionId));
+          }
+          body.input = items;
         }
 
-        if (redactionResult.detectedPII.length > 0) {
-          this.addRedactionLogEntry(source, sessionId, redactionResult.redactedText,
-            redactionResult.detectedPII.map(d => ({ type: d.type, category: d.category, confidence: d.confidence }))
-          );
+        if (body.tools) {
+          body.tools = await this.redactToolDefinitions(body.tools, sessionId, 'openai');
         }
+        return body;
+      });
+    }
 
-        result.push({ ...msg, content: redactionResult.redactedText });
-      } else if (Array.isArray(msg.content)) {
-        const redactedBlocks = [];
-        for (const block of msg.content) {
-          if (block.type === 'text' && typeof block.text === 'string') {
-            const blockResult = await this.redactionPipeline.redact(block.text, sessionId);
-            this.storeTokens(sessionId, blockResult.tokens);
-
-            const tokensByType = new Map<string, Map<string, string>>();
-            for (const [token, original] of blockResult.tokens) {
-              const pii = blockResult.detectedPII.find(p => p.value === original);
-              const type = pii?.type || 'regex';
-              if (!tokensByType.has(type)) tokensByType.set(type, new Map());
-              tokensByType.get(type)!.set(token, original);
-            }
-            for (const [type, tokens] of tokensByType) {
-              await this.rehydrationStore.store(sessionId, tokens, 3600, type as 'dictionary' | 'regex' | 'names' | 'ner', 'MESSAGE');
-            }
+    const upstreamRes = await this.forwardToUpstream(
+      provider,
+      '/v1/responses',
+      requestBody,
+      { 'Authorization': `Bearer ${apiKey}` },
+      this.getClientSignal(res)
+    );
 
-            this.stats.piiDetected += blockResult.detectedPII.length;
-            for (const pii of blockResult.detectedPII) {
-              if (pii.type === 'dictionary') this.stats.dictionaryHits++;
-              else if (pii.type === 'regex') this.stats.regexHits++;
-              else if (pii.type === 'names') this.stats.namesHits++;
-              else if (pii.type === 'ner') this.stats.nerHits++;
-            }
+    await this.relayResponse(upstreamRes, res, sessionId, hydrate, !!requestBody.stream, 'responses');
+  }
 
-            if (blockResult.detectedPII.length > 0) {
-              this.addRedactionLogEntry(source, sessionId, blockResult.redactedText,
-                blockResult.detectedPII.map(d => ({ type: d.type, category: d.category, confidence: d.confidence }))
-              );
-            }
+  private async handleOpenAIEmbeddings(req: Request, res: Response): Promise<void> {
+    const scan = this.shouldScan(req);
+    const apiKey = this.getClientApiKey(req);
 
-            redactedBlocks.push({ ...block, text: blockResult.redactedText });
-          } else {
-            redactedBlocks.push(block);
+    if (!apiKey) {
+      res.status(401).json({ error: { message: 'Missing API key. Provide Bearer token in Authorization header.', type: 'invalid_request_error' } });
+      return;
+    }
+
+    // Without an explicit session, share one session per API key so the same value
+    // embeds with the same placeholder across ingestion calls. The random per-process
+    // secret changes them on restart, so warn once when SESSION_SECRET is unset.
+    if (!req.headers['x-anonamoose-session'] && this.shouldRedact(req) && !this.hasSessionSecret && !this.warnedSessionSecret) {
+      this.warnedSessionSecret = true;
+      console.warn('WARNING: SESSION_SECRET not set — embeddings placeholders will change when the proxy restarts');
+    }
+    const sessionId = req.headers['x-anonamoose-session']
+      ? this.getSessionId(req)
+      : deriveSessionId(this.sessionSecret, 'embeddings', apiKey);
+
+    const provider = this.getProvider(req, 'openai', 'openai');
+    let requestBody = { ...req.body };
+
+    if (scan) {
+      requestBody = await this.redactBody(requestBody, sessionId, 'openai', async body => {
+        if (typeof body.input === 'string') {
+          body.input = await this.redactText(body.input, sessionId, 'openai', 'EMBEDDING');
+        } else if (Array.isArray(body.input)) {
+          // Token-ID arrays (number[] / number[][]) are forwarded untouched
+          const inputs = [];
+          for (const input of body.input) {
+            inputs.push(typeof input === 'string'
+              ? await this.redactText(input, sessionId, 'openai', 'EMBEDDING')
+              : input);
           }
+          body.input = inputs;
         }
-        result.push({ ...msg, content: redactedBlocks });
-      } else {
-        result.push(msg);
-      }
+        return body;
+      });
     }
 
-    return result;
-  }
+    const upstreamRes = await this.forwardToUpstream(
+      provider,
+      '/v1/embeddings',
+      requestBody,
+      { 'Authorization': `Bearer ${apiKey}` },
+      this.getClientSignal(res)
+    );
 
-  private storeTokens(sessionId: string, tokens: Map<string, string>): void {
-    const existing = this.sessionTokens.get(sessionId);
-    const map = existing?.tokens || new Map();
-    for (const [k, v] of tokens) {
-      if (map.size >= ProxyServer.MAX_TOKENS_PER_SESSION) break;
-      map.set(k, v);
-    }
-    this.sessionTokens.set(sessionId, { tokens: map, createdAt: existing?.createdAt || Date.now() });
+    await this.relayResponse(upstreamRes, res, sessionId, false, false);
   }
 
-  private cleanupSessionTokens(): void {
-    const now = Date.now();
-    for (const [id, entry] of this.sessionTokens) {
-      if (now - entry.createdAt > SESSION_TOKEN_TTL_MS) {
-        this.sessionTokens.delete(id);
-      }
-    }
-  }
+  /**
+   * Redact one Responses API input item. Message content is either a string or a list
+   * of parts; earlier assistant turns come back as output_text parts carrying rehydrated values.
+   * Function calls and their outputs are redacted as JSON.
+   */
+  private async redactResponsesInputItem(item: any, sessionId: string): Promise<any> {
+    if (!item || typeof item !== 'object') return item;
 
-  private async hydrateResponse(response: any, sessionId: string): Promise<any> {
-    const entry = this.sessionTokens.get(sessionId);
-    if (!entry) return response;
+    if (item.type === 'function_call' && typeof item.arguments === 'string') {
+      return { ...item, arguments: await this.redactJsonString(item.arguments, sessionId, 'openai') };
+    }
 
-    const hydrate = async (obj: any): Promise<any> => {
-      if (typeof obj === 'string') {
-        let result = obj;
-        for (const [tokenized, original] of entry.tokens) {
-          result = result.replaceAll(tokenized, original);
-        }
-        return result;
-      }
+    if (item.type === 'function_call_output' && typeof item.output === 'string') {
+      return { ...item, output: await this.redactJsonString(item.output, sessionId, 'openai') };
+    }
 
-      if (Array.isArray(obj)) {
-        return Promise.all(obj.map(hydrate));
-      }
+    if (typeof item.content === 'string') {
+      return { ...item, content: await this.redactText(item.content, sessionId, 'openai') };
+    }
 
-      if (obj && typeof obj === 'object') {
-        const result: any = {};
-        for (const [k, v] of Object.entries(obj)) {
-          result[k] = await hydrate(v);
+    if (Array.isArray(item.content)) {
+      const parts = [];
+      for (const part of item.content) {
+        if (part && (part.type === 'input_text' || part.type === 'output_text') && typeof part.text === 'string') {
+          parts.push({ ...part, text: await this.redactText(part.text, sessionId, 'openai') });
+        } else {
+          parts.push(part);
         }
-        return result;
       }
+      return { ...item, content: parts };
+    }
 
-      return obj;
-    };
+    return item;
+  }
 
-    return hydrate(response);
+  private getAzureAuthHeaders(req: Request): Record<string, string> | null {
+    const apiKey = req.headers['api-key'];
+    if (typeof apiKey === 'string' && apiKey) {
+      return { 'api-key': apiKey };
+    }
+    // Microsoft Entra ID tokens are sent as a Bearer token instead of an api-key
+    const authHeader = req.headers.authorization;
+    if (authHeader) {
+      return { 'Authorization': authHeader.startsWith('Bearer ') ? authHeader : `Bearer ${authHeader}` };
+    }
+    return null;
   }
 
-  private async forwardToUpstream(
-    baseUrl: string,
-    path: string,
-    body: any,
-    apiKey: string,
-    additionalHeaders: Record<string, string> = {}
-  ): Promise<globalThis.Response> {
-    const url = `${baseUrl}${path}`;
+  private async handleAzureOpenAI(req: Request, res: Response): Promise<void> {
+    const sessionId = this.getSessionId(req);
+    const scan = this.shouldScan(req);
+    const hydrate = this.shouldHydrate(req);
+    const authHeaders = this.getAzureAuthHeaders(req);
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`,
-      ...additionalHeaders
-    };
+    if (!authHeaders) {
+      res.status(401).json({ error: { message: 'Missing API key. Provide an api-key header or Bearer token in Authorization header.', type: 'invalid_request_error' } });
+      return;
+    }
 
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(body)
-    });
+    if (typeof req.query['api-version'] !== 'string') {
+      res.status(400).json({ error: { message: 'Missing required query parameter: api-version', type: 'invalid_request_error' } });
+      return;
+    }
 
-    return response;
-  }
+    const provider = this.getProvider(req, 'azure', 'azure');
+    let requestBody = { ...req.body };
 
-  private async parseBody(response: globalThis.Response): Promise<any> {
+    if (scan && requestBody.messages) {
+      requestBody = await this.redactBody(requestBody, sessionId, 'azure', async body => {
+        body.messages = await this.redactMessages(body.messages, sessionId, 'azure');
+        for (const key of ['tools', 'functions']) {
+          if (body[key]) {
+            body[key] = await this.redactToolDefinitions(body[key], sessionId, 'azure');
+          }
+        }
+        return body;
+      });
+    }
+
+    const deployment = encodeURIComponent(req.params.deployment);
+    const upstreamRes = await this.forwardToUpstream(
+      provider,
+      `/openai/deployments/${deployment}/chat/completions${this.getQueryString(req)}`,
+      requestBody,
+      authHeaders,
+      this.getClientSignal(res)
+    );
+
+    await this.relayResponse(upstreamRes, res, sessionId, hydrate, !!requestBody.stream);
+  }
+
+  private getGeminiAuthHeaders(req: Request): Record<string, string> | null {
+    const apiKey = req.headers['x-goog-api-key'];
+    if (typeof apiKey === 'string' && apiKey) {
+      return { 'x-goog-api-key': apiKey };
+    }
+    // The key may instead travel in the ?key= query string, which is forwarded as-is
+    if (typeof req.query.key === 'string' && req.query.key) {
+      return {};
+    }
+    return null;
+  }
+
+  private async handleGemini(req: Request, res: Response, stream: boolean): Promise<void> {
+    const sessionId = this.getSessionId(req);
+    const scan = this.shouldScan(req);
+    const hydrate = this.shouldHydrate(req);
+    const authHeaders = this.getGeminiAuthHeaders(req);
+
+    if (!authHeaders) {
+      res.status(401).json({ error: { code: 401, message: 'Missing API key. Provide an x-goog-api-key header or key query parameter.', status: 'UNAUTHENTICATED' } });
+      return;
+    }
+
+    const provider = this.getProvider(req, 'gemini', 'gemini');
+    let requestBody = { ...req.body };
+
+    if (scan) {
+      requestBody = await this.redactBody(requestBody, sessionId, 'gemini', async body => {
+        // The REST API accepts both camelCase and snake_case field names
+        for (const key of ['systemInstruction', 'system_instruction']) {
+          if (typeof body[key] === 'string') {
+            body[key] = await this.redactText(body[key], sessionId, 'gemini', 'SYSTEM');
+          } else if (body[key]) {
+            body[key] = await this.redactGeminiContent(body[key], sessionId, 'SYSTEM');
+          }
+        }
+
+        if (Array.isArray(body.contents)) {
+          const contents = [];
+          for (const content of body.contents) {
+            contents.push(await this.redactGeminiContent(content, sessionId));
+          }
+          body.contents = contents;
+        }
+
+        if (body.tools) {
+          body.tools = await this.redactToolDefinitions(body.tools, sessionId, 'gemini');
+        }
+        return body;
+      });
+    }
+
+    const upstreamRes = await this.forwardToUpstream(
+      provider,
+      `${req.path}${this.getQueryString(req)}`,
+      requestBody,
+      authHeaders,
+      this.getClientSignal(res)
+    );
+
+    // streamGenerateContent returns SSE with ?alt=sse, otherwise a streamed JSON array
+    if (stream && req.query.alt !== 'sse') {
+      await this.handleJsonArrayStreaming(upstreamRes, res, sessionId, hydrate);
+      return;
+    }
+    await this.relayResponse(upstreamRes, res, sessionId, hydrate, stream, 'gemini');
+  }
+
+  private async redactGeminiContent(content: any, sessionId: string, category: string = 'MESSAGE'): Promise<any> {
+    if (!content || !Array.isArray(content.parts)) return content;
+
+    const parts = [];
+    for (const part of content.parts) {
+      if (part && typeof part.text === 'string') {
+        parts.push({ ...part, text: await this.redactText(part.text, sessionId, 'gemini', category) });
+      } else if (part?.functionCall?.args) {
+        parts.push({ ...part, functionCall: { ...part.functionCall, args: await this.redactJsonValue(part.functionCall.args, sessionId, 'gemini') } });
+      } else if (part?.functionResponse?.response) {
+        parts.push({ ...part, functionResponse: { ...part.functionResponse, response: await this.redactJsonValue(part.functionResponse.response, sessionId, 'gemini') } });
+      } else {
+        parts.push(part);
+      }
+    }
+    return { ...content, parts };
+  }
+
+  private async handleOllama(req: Request, res: Response, endpoint: 'chat' | 'generate'): Promise<void> {
+    const sessionId = this.getSessionId(req);
+    const scan = this.shouldScan(req);
+    const hydrate = this.shouldHydrate(req);
+
+    // Ollama has no auth of its own; forward a token for hosts behind an authenticating proxy
+    const authHeaders: Record<string, string> = {};
+    if (req.headers.authorization) {
+      authHeaders['Authorization'] = req.headers.authorization;
+    }
+
+    const provider = this.getProvider(req, 'ollama', 'ollama');
+    let requestBody = { ...req.body };
+
+    if (scan) {
+      requestBody = await this.redactBody(requestBody, sessionId, 'ollama', async body => {
+        if (endpoint === 'chat' && Array.isArray(body.messages)) {
+          body.messages = await this.redactOllamaMessages(body.messages, sessionId);
+        }
+
+        if (endpoint === 'generate') {
+          if (typeof body.prompt === 'string') {
+            body.prompt = await this.redactText(body.prompt, sessionId, 'ollama');
+          }
+          if (typeof body.system === 'string') {
+            body.system = await this.redactText(body.system, sessionId, 'ollama', 'SYSTEM');
+          }
+        }
+
+        if (body.tools) {
+          body.tools = await this.redactToolDefinitions(body.tools, sessionId, 'ollama');
+        }
+        return body;
+      });
+    }
+
+    const upstreamRes = await this.forwardToUpstream(
+      provider,
+      `/api/${endpoint}`,
+      requestBody,
+      authHeaders,
+      this.getClientSignal(res)
+    );
+
+    // Ollama streams unless the client explicitly sets "stream": false
+    if (requestBody.stream !== false && upstreamRes.ok) {
+      await this.handleNdjsonStreaming(upstreamRes, res, sessionId, hydrate, 'ollama');
+      return;
+    }
+    await this.relayResponse(upstreamRes, res, sessionId, hydrate, false);
+  }
+
+  private async handleBedrock(req: Request, res: Response, stream: boolean): Promise<void> {
+    const sessionId = this.getSessionId(req);
+    const scan = this.shouldScan(req);
+    const hydrate = this.shouldHydrate(req);
+
+    // A Bedrock API key is forwarded as-is. A client's own SigV4 signature cannot survive
+    // redaction, so those requests are re-signed with the proxy's AWS credentials.
+    const authHeaders: Record<string, string> = {};
+    const authorization = req.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      authHeaders['Authorization'] = authorization;
+    }
+
+    const provider = this.getProvider(req, 'bedrock', 'bedrock');
+    let requestBody = { ...req.body };
+
+    if (scan) {
+      requestBody = await this.redactBody(requestBody, sessionId, 'bedrock', async body => {
+        if (Array.isArray(body.system)) {
+          body.system = await this.redactBedrockContent(body.system, sessionId, 'SYSTEM');
+        }
+
+        if (Array.isArray(body.messages)) {
+          const messages = [];
+          for (const msg of body.messages) {
+            messages.push(Array.isArray(msg?.content)
+              ? { ...msg, content: await this.redactBedrockContent(msg.content, sessionId) }
+              : msg);
+          }
+          body.messages = messages;
+        }
+
+        if (body.toolConfig?.tools) {
+          body.toolConfig = {
+            ...body.toolConfig,
+            tools: await this.redactToolDefinitions(body.toolConfig.tools, sessionId, 'bedrock'),
+          };
+        }
+        return body;
+      });
+    }
+
+    const upstreamRes = await this.forwardToUpstream(
+      provider,
+      `/model/${encodeURIComponent(req.params.modelId)}/${stream ? 'converse-stream' : 'converse'}`,
+      requestBody,
+      authHeaders,
+      this.getClientSignal(res)
+    );
+
+    if (stream && upstreamRes.ok) {
+      await this.handleEventStreaming(upstreamRes, res, sessionId, hydrate);
+      return;
+    }
+    await this.relayResponse(upstreamRes, res, sessionId, hydrate, false);
+  }
+
+  /**
+   * Redact Converse content blocks. Blocks are unions keyed by type
+   * (`text`, `toolUse`, `toolResult`, `guardContent`, ...); images and documents pass through.
+   */
+  private async redactBedrockContent(blocks: any[], sessionId: string, category: string = 'MESSAGE'): Promise<any[]> {
+    const result = [];
+    for (const block of blocks) {
+      if (typeof block?.text === 'string') {
+        result.push({ ...block, text: await this.redactText(block.text, sessionId, 'bedrock', category) });
+      } else if (block?.toolUse && block.toolUse.input !== undefined) {
+        result.push({ ...block, toolUse: { ...block.toolUse, input: await this.redactJsonValue(block.toolUse.input, sessionId, 'bedrock') } });
+      } else if (Array.isArray(block?.toolResult?.content)) {
+        const content = [];
+        for (const item of block.toolResult.content) {
+          if (typeof item?.text === 'string') {
+            content.push({ ...item, text: await this.redactText(item.text, sessionId, 'bedrock', 'TOOL') });
+          } else if (item?.json !== undefined) {
+            content.push({ ...item, json: await this.redactJsonValue(item.json, sessionId, 'bedrock') });
+          } else {
+            content.push(item);
+          }
+        }
+        result.push({ ...block, toolResult: { ...block.toolResult, content } });
+      } else if (typeof block?.guardContent?.text?.text === 'string') {
+        const text = await this.redactText(block.guardContent.text.text, sessionId, 'bedrock', category);
+        result.push({ ...block, guardContent: { ...block.guardContent, text: { ...block.guardContent.text, text } } });
+      } else {
+        result.push(block);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Redact Ollama chat messages. Tool call arguments are JSON objects here, not strings.
+   */
+  private async redactOllamaMessages(messages: any[], sessionId: string): Promise<any[]> {
+    const result = [];
+    for (const msg of messages) {
+      if (!msg || typeof msg !== 'object') {
+        result.push(msg);
+        continue;
+      }
+      const redacted = { ...msg };
+      if (typeof msg.content === 'string') {
+        redacted.content = await this.redactText(msg.content, sessionId, 'ollama', msg.role === 'tool' ? 'TOOL' : 'MESSAGE');
+      }
+      if (Array.isArray(msg.tool_calls)) {
+        const toolCalls = [];
+        for (const call of msg.tool_calls) {
+          toolCalls.push(call?.function?.arguments !== undefined
+            ? { ...call, function: { ...call.function, arguments: await this.redactJsonValue(call.function.arguments, sessionId, 'ollama') } }
+            : call);
+        }
+        redacted.tool_calls = toolCalls;
+      }
+      result.push(redacted);
+    }
+    return result;
+  }
+
+  private async redactMessages(messages: ChatMessage[], sessionId: string, source: RedactionLogEntry['source'] = 'openai'): Promise<ChatMessage[]> {
+    const result: ChatMessage[] = [];
+
+    for (const msg of messages) {
+      const redacted: ChatMessage = { ...msg };
+
+      if (typeof msg.content === 'string') {
+        // Covers role "tool" results as well as plain user/assistant text
+        const category = msg.role === 'tool' ? 'TOOL' : 'MESSAGE';
+        redacted.content = await this.redactText(msg.content, sessionId, source, category);
+      } else if (Array.isArray(msg.content)) {
+        redacted.content = await this.redactContentBlocks(msg.content, sessionId, source);
+      }
+
+      // OpenAI tool calls carry their arguments as a JSON string
+      if (Array.isArray(msg.tool_calls)) {
+        const toolCalls = [];
+        for (const call of msg.tool_calls) {
+          if (call?.function && typeof call.function.arguments === 'string') {
+            toolCalls.push({
+              ...call,
+              function: { ...call.function, arguments: await this.redactJsonString(call.function.arguments, sessionId, source) },
+            });
+          } else {
+            toolCalls.push(call);
+          }
+        }
+        redacted.tool_calls = toolCalls;
+      }
+
+      if (msg.function_call && typeof msg.function_call.arguments === 'string') {
+        redacted.function_call = {
+          ...msg.function_call,
+          arguments: await this.redactJsonString(msg.function_call.arguments, sessionId, source),
+        };
+      }
+
+      result.push(redacted);
+    }
+
+    return result;
+  }
+
+  /**
+   * Redact a list of content blocks. Blocks are shallow-copied, so metadata such as
+   * `cache_control` and `citations` is forwarded unchanged.
+   */
+  private async redactContentBlocks(
+    blocks: ContentBlock[],
+    sessionId: string,
+    source: RedactionLogEntry['source'],
+    category: string = 'MESSAGE'
+  ): Promise<ContentBlock[]> {
+    const result: ContentBlock[] = [];
+
+    for (const block of blocks) {
+      if (block?.type === 'text' && typeof block.text === 'string') {
+        result.push({ ...block, text: await this.redactText(block.text, sessionId, source, category) });
+      } else if (block?.type === 'tool_use' && block.input !== undefined) {
+        result.push({ ...block, input: await this.redactJsonValue(block.input, sessionId, source) });
+      } else if (block?.type === 'tool_result' && typeof block.content === 'string') {
+        result.push({ ...block, content: await this.redactText(block.content, sessionId, source, 'TOOL') });
+      } else if (block?.type === 'tool_result' && Array.isArray(block.content)) {
+        result.push({ ...block, content: await this.redactContentBlocks(block.content, sessionId, source, 'TOOL') });
+      } else if (block?.type === 'document') {
+        result.push(await this.redactDocumentBlock(block, sessionId, source));
+      } else {
+        result.push(block);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Redact an Anthropic document block. Plain-text and custom-content sources are
+   * redacted; base64 (PDF), URL and file sources are forwarded as-is.
+   */
+  private async redactDocumentBlock(block: ContentBlock, sessionId: string, source: RedactionLogEntry['source']): Promise<ContentBlock> {
+    const redacted: ContentBlock = { ...block };
+
+    if (typeof block.title === 'string') {
+      redacted.title = await this.redactText(block.title, sessionId, source, 'DOCUMENT');
+    }
+    if (typeof block.context === 'string') {
+      redacted.context = await this.redactText(block.context, sessionId, source, 'DOCUMENT');
+    }
+
+    const docSource = block.source;
+    if (docSource?.type === 'text' && typeof docSource.data === 'string') {
+      redacted.source = { ...docSource, data: await this.redactText(docSource.data, sessionId, source, 'DOCUMENT') };
+    } else if (docSource?.type === 'content' && typeof docSource.content === 'string') {
+      redacted.source = { ...docSource, content: await this.redactText(docSource.content, sessionId, source, 'DOCUMENT') };
+    } else if (docSource?.type === 'content' && Array.isArray(docSource.content)) {
+      redacted.source = { ...docSource, content: await this.redactContentBlocks(docSource.content, sessionId, source, 'DOCUMENT') };
+    }
+
+    return redacted;
+  }
+
+  /**
+   * Redact every string value in a parsed JSON value (tool arguments, tool results),
+   * leaving keys, numbers and booleans intact so the structure still matches its schema.
+   */
+  private async redactJsonValue(value: unknown, sessionId: string, source: RedactionLogEntry['source']): Promise<unknown> {
+    if (typeof value === 'string') {
+      return this.redactText(value, sessionId, source, 'TOOL');
+    }
+
+    if (Array.isArray(value)) {
+      const items = [];
+      for (const item of value) {
+        items.push(await this.redactJsonValue(item, sessionId, source));
+      }
+      return items;
+    }
+
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(value)) {
+        result[k] = await this.redactJsonValue(v, sessionId, source);
+      }
+      return result;
+    }
+
+    return value;
+  }
+
+  /**
+   * Redact a serialized JSON string such as OpenAI tool-call arguments. Falls back to
+   * plain-text redaction when the string is not valid JSON.
+   */
+  private async redactJsonString(text: string, sessionId: string, source: RedactionLogEntry['source']): Promise<string> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return this.redactText(text, sessionId, source, 'TOOL');
+    }
+    return JSON.stringify(await this.redactJsonValue(parsed, sessionId, source));
+  }
+
+  /**
+   * Redact the descriptions in tool/function definitions, at any depth so parameter
+   * descriptions inside JSON schemas are covered. Names and schema keywords are left alone.
+   */
+  private async redactToolDefinitions(tools: unknown, sessionId: string, source: RedactionLogEntry['source']): Promise<unknown> {
+    if (Array.isArray(tools)) {
+      const result = [];
+      for (const tool of tools) {
+        result.push(await this.redactToolDefinitions(tool, sessionId, source));
+      }
+      return result;
+    }
+
+    if (tools && typeof tools === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [k, v] of Object.entries(tools)) {
+        result[k] = k === 'description' && typeof v === 'string'
+          ? await this.redactText(v, sessionId, source, 'TOOL')
+          : await this.redactToolDefinitions(v, sessionId, source);
+      }
+      return result;
+    }
+
+    return tools;
+  }
+
+  /**
+   * Redact a request body with `walk`, which passes each of its strings through redactText.
+   * With blockCategories set, a first walk over a copy only scans, so a refused request
+   * has nothing stored, counted or logged besides the block itself.
+   */
+  private async redactBody<T>(
+    body: T,
+    sessionId: string,
+    source: RedactionLogEntry['source'],
+    walk: (body: T) => Promise<T>
+  ): Promise<T> {
+    const context = this.requestContext.getStore();
+    const blockCategories = this.getBlockCategories();
+    if (context && blockCategories.size > 0) {
+      context.policyScan = [];
+      try {
+        await walk({ ...body });
+        this.enforceBlockPolicy(blockCategories, source, sessionId, context.policyScan);
+      } finally {
+        context.policyScan = undefined;
+      }
+    }
+    if (context?.redact === false) return body;
+
+    const redacted = await walk(body);
+    this.countRedactedRequest();
+    return redacted;
+  }
+
+  /**
+   * Redact a single string from a proxied request body: stores the tokens for
+   * rehydration, updates stats and records the redaction log entry.
+   */
+  private async redactText(
+    text: string,
+    sessionId: string,
+    source: RedactionLogEntry['source'],
+    category: string = 'MESSAGE'
+  ): Promise<string> {
+    const context = this.requestContext.getStore();
+    // Policy detection uses the settings alone, so no x-anonamoose-* header can hide a
+    // blocked category, and scans without NER so it adds no model inference
+    if (context?.policyScan) {
+      context.policyScan.push(...this.redactionPipeline.scan(text));
+      return text;
+    }
+    if (context?.redact === false) return text;
+
+    const redactionResult = await this.redactionPipeline.redact(
+      text, sessionId, context?.overrides, await this.getSessionPlaceholders(sessionId)
+    );
+    context?.detections.push(...redactionResult.detectedPII);
+
+    // Audit mode only records what would have been redacted; nothing is stored
+    if (context?.audit) {
+      this.recordDetections(source, sessionId, redactionResult, { audit: true });
+      return text;
+    }
+
+    this.storeTokens(sessionId, redactionResult.tokens);
+
+    const entries: TokenEntry[] = [...redactionResult.tokens].map(([tokenized, original]) => ({
+      original,
+      tokenized,
+      type: redactionResult.detectedPII.find(p => p.value === original)?.type ?? 'regex',
+      category,
+    }));
+    if (context) {
+      // One session write per request, however many strings it redacts
+      context.pendingTokens.set(sessionId, [...(context.pendingTokens.get(sessionId) ?? []), ...entries]);
+      if (context.placeholders?.sessionId === sessionId) {
+        for (const [token, original] of redactionResult.tokens) context.placeholders.tokens.set(token, original);
+      }
+    } else {
+      await this.rehydrationStore.storeEntries(sessionId, entries, 3600);
+    }
+
+    this.recordDetections(source, sessionId, redactionResult);
+    return redactionResult.redactedText;
+  }
+
+  /**
+   * Add a redaction's detections to the stats and the redaction log.
+   */
+  private recordDetections(
+    source: RedactionLogEntry['source'],
+    sessionId: string,
+    result: RedactionResult,
+    flags: { audit?: boolean } = {}
+  ): void {
+    this.stats.piiDetected += result.detectedPII.length;
+    for (const pii of result.detectedPII) {
+      if (pii.type === 'dictionary') this.stats.dictionaryHits++;
+      else if (pii.type === 'regex') this.stats.regexHits++;
+      else if (pii.type === 'names') this.stats.namesHits++;
+      else if (pii.type === 'ner') this.stats.nerHits++;
+    }
+
+    if (result.detectedPII.length > 0) {
+      this.addRedactionLogEntry(source, sessionId, result.redactedText,
+        result.detectedPII.map(d => ({ type: d.type, category: d.category, confidence: d.confidence })),
+        flags
+      );
+    }
+  }
+
+  /**
+   * Refuse a request containing a category from the blockCategories setting. The
+   * error and the redaction log name the categories found, never the values.
+   */
+  private enforceBlockPolicy(
+    blockCategories: Set<string>,
+    source: RedactionLogEntry['source'],
+    sessionId: string,
+    detections: PIIDetection[]
+  ): void {
+    const found = detections.filter(d => blockCategories.has(d.category.toUpperCase()));
+    if (found.length === 0) return;
+
+    const counts = new Map<string, number>();
+    for (const d of found) counts.set(d.category, (counts.get(d.category) ?? 0) + 1);
+    const summary = [...counts].map(([category, count]) => `${category} (${count})`).join(', ');
+
+    this.stats.requestsBlocked++;
+    this.addRedactionLogEntry(source, sessionId, `Blocked: ${summary}`,
+      found.map(d => ({ type: d.type, category: d.category, confidence: d.confidence })), { blocked: true });
+    throw new ProxyError(`Request blocked by policy: it contains ${summary}`, 400, 'invalid_request_error', 'pii_blocked');
+  }
+
+  /**
+   * The placeholders already assigned in this session, mapped to their originals, so the
+   * pipeline gives a repeated value the same placeholder for the session's lifetime.
+   * Within a proxied request the session is read once; redactText adds what it stores.
+   */
+  private async getSessionPlaceholders(sessionId: string): Promise<Map<string, string>> {
+    const context = this.requestContext.getStore();
+    if (context?.placeholders?.sessionId === sessionId) return context.placeholders.tokens;
+
+    const session = await this.rehydrationStore.retrieve(sessionId);
+    const tokens = new Map((session?.tokens ?? []).map(t => [t.tokenized, t.original]));
+    if (context) context.placeholders = { sessionId, tokens };
+    return tokens;
+  }
+
+  private storeTokens(sessionId: string, tokens: Map<string, string>): void {
+    const existing = this.sessionTokens.get(sessionId);
+    const map = existing?.tokens || new Map();
+    for (const [k, v] of tokens) {
+      if (map.size >= ProxyServer.MAX_TOKENS_PER_SESSION) break;
+      map.set(k, v);
+    }
+    this.sessionTokens.set(sessionId, { tokens: map, createdAt: existing?.createdAt || Date.now() });
+  }
+
+  private cleanupSessionTokens(): void {
+    const now = Date.now();
+    for (const [id, entry] of this.sessionTokens) {
+      if (now - entry.createdAt > SESSION_TOKEN_TTL_MS) {
+        this.sessionTokens.delete(id);
+      }
+    }
+  }
+
+  /**
+   * Hydrate a complete response body (unless `hydrate` is off), then apply the egress scan.
+   */
+  private async hydrateResponse(response: any, sessionId: string, hydrate: boolean): Promise<any> {
+    const entry = this.sessionTokens.get(sessionId);
+    const hydrated = hydrate && entry ? hydrateValue(response, entry.tokens) : response;
+    const scanner = await this.createEgressScanner(sessionId);
+    return scanner ? this.scanResponseValue(hydrated, scanner) : hydrated;
+  }
+
+  /**
+   * Rehydrator for a streamed response, or null when there is nothing to hydrate and
+   * no egress scan. With `hydrate` off it only scans.
+   */
+  private async createStreamRehydrator(sessionId: string, format: StreamFormat, hydrate: boolean): Promise<StreamRehydrator | null> {
+    const entry = hydrate ? this.sessionTokens.get(sessionId) : undefined;
+    const scanner = await this.createEgressScanner(sessionId);
+    if (!entry && !scanner) return null;
+    return new StreamRehydrator(format, entry?.tokens ?? new Map(), scanner ? () => scanner.stream() : undefined);
+  }
+
+  /**
+   * Scanner for the egressScan policy, or null when it is off. Values stored for the
+   * session, by this request or earlier ones, are not reported, nor are their
+   * placeholders (left in place when hydration is off). The request's overrides (locale,
+   * layers, excluded categories) apply as they did on the way in.
+   */
+  private async createEgressScanner(sessionId: string): Promise<EgressScanner | null> {
+    const mode = getSetting<EgressMode>(this.db, 'egressScan') ?? 'off';
+    if (mode === 'off') return null;
+
+    const session = await this.rehydrationStore.retrieve(sessionId);
+    const known = (session?.tokens ?? []).flatMap(t => [t.original, t.tokenized]);
+    for (const [placeholder, original] of this.sessionTokens.get(sessionId)?.tokens ?? []) {
+      known.push(original, placeholder);
+    }
+
+    const overrides = this.requestContext.getStore()?.overrides;
+    return new EgressScanner(
+      text => this.redactionPipeline.scan(text, overrides),
+      known,
+      mode,
+      findings => { this.stats.egressDetections += findings.length; }
+    );
+  }
+
+  /**
+   * Apply the egress scan to every string in a response body except identifiers and
+   * other metadata (ids, model names, roles, finish reasons).
+   */
+  private scanResponseValue(value: any, scanner: EgressScanner): any {
+    if (typeof value === 'string') return scanner.process(value);
+    if (Array.isArray(value)) return value.map(v => this.scanResponseValue(v, scanner));
+    if (value && typeof value === 'object') {
+      const result: any = {};
+      for (const [k, v] of Object.entries(value)) {
+        result[k] = EGRESS_SKIP_KEYS.test(k) ? v : this.scanResponseValue(v, scanner);
+      }
+      return result;
+    }
+    return value;
+  }
+
+  /**
+   * Hydrate one SSE event. The `data:` payload is parsed and passed through the stream
+   * rehydrator, which may emit extra events ahead of it carrying held-back text.
+   * Non-JSON payloads such as `[DONE]` end the stream: held-back text is flushed first.
+   */
+  private hydrateSseEvent(event: string, rehydrator: StreamRehydrator): string {
+    const newline = event.includes('\r\n') ? '\r\n' : '\n';
+    const lines = event.split(/\r?\n/);
+    const dataLines: string[] = [];
+    const otherLines: string[] = [];
+    let dataIndex = -1;
+    for (const line of lines) {
+      if (line.startsWith('data:')) {
+        if (dataIndex === -1) dataIndex = otherLines.length;
+        dataLines.push(line.slice(line.startsWith('data: ') ? 6 : 5));
+      } else {
+        otherLines.push(line);
+      }
+    }
+    if (dataIndex === -1) return event;
+
+    const hasEventLine = otherLines.some(line => line.startsWith('event:'));
+    const format = (payload: any): string =>
+      (hasEventLine && payload?.type ? `event: ${payload.type}${newline}` : '') + `data: ${JSON.stringify(payload)}${newline}${newline}`;
+
+    const data = dataLines.join('\n');
+    let payload: any;
+    let extra: any[];
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      payload = undefined;
+    }
+
+    let dataLine: string;
+    if (payload !== undefined) {
+      const hydrated = rehydrator.process(payload);
+      extra = hydrated.slice(0, -1);
+      dataLine = `data: ${JSON.stringify(hydrated[hydrated.length - 1])}`;
+    } else {
+      extra = rehydrator.end();
+      dataLine = `data: ${data}`;
+    }
+
+    otherLines.splice(dataIndex, 0, dataLine);
+    return extra.map(format).join('') + otherLines.join(newline);
+  }
+
+  private async forwardToUpstream(
+    provider: ProviderConfig,
+    path: string,
+    body: any,
+    authHeaders: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<globalThis.Response> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...authHeaders
+    };
+
+    const context = this.requestContext.getStore();
+    for (const [sessionId, entries] of context?.pendingTokens ?? []) {
+      await this.rehydrationStore.storeEntries(sessionId, entries, 3600);
+    }
+    context?.pendingTokens.clear();
+
+    // In audit mode, or with redaction off, the upstream gets exactly what the client sent
+    return this.fetchFromProvider(provider, path, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(context && (context.audit || !context.redact) ? context.originalBody : body)
+    }, signal);
+  }
+
+  /**
+   * Send a request to one of the provider's targets, failing over to the next target
+   * (by priority, then weight) on network errors, timeouts, 429 and 5xx responses.
+   * The body is already redacted, so every target sees the same placeholders.
+   */
+  private async fetchFromProvider(
+    provider: ProviderConfig,
+    path: string,
+    init: RequestInit & { headers: Record<string, string> },
+    signal?: AbortSignal
+  ): Promise<globalThis.Response> {
+    const targets = orderTargets(getProviderTargets(provider).map((target, index) => ({ ...target, index })));
+    let lastError: unknown;
+
+    for (let i = 0; i < targets.length; i++) {
+      const target = targets[i];
+      const health = this.getTargetHealth(provider.id, target.index);
+      const isLast = i === targets.length - 1;
+      if (health.breaker.state === 'open' && !isLast) continue;
+
+      const request = target.apiKey
+        ? withTargetCredentials(provider.type, path, init.headers, target.apiKey)
+        : { path, headers: init.headers };
+      const url = `${target.baseUrl}${request.path}`;
+      if (provider.type === 'bedrock' && !request.headers['Authorization']) {
+        request.headers = this.signBedrockRequest(provider, url, request.headers, init.body as string);
+      }
+
+      try {
+        const response = await fetchUpstream(url, { ...init, headers: request.headers }, {
+          timeoutMs: provider.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+          maxRetries: provider.maxRetries ?? DEFAULT_MAX_RETRIES,
+          breaker: health.breaker,
+          signal,
+        });
+        health.requests++;
+        if (response.status === 429 || response.status >= 500) {
+          this.recordTargetFailure(health, `HTTP ${response.status}`);
+          if (!isLast) {
+            await response.body?.cancel().catch(() => {});
+            continue;
+          }
+        }
+        return response;
+      } catch (err: any) {
+        lastError = err;
+        // The breaker refused the attempt, so nothing was sent: not a request or a failure
+        if (err instanceof CircuitOpenError) continue;
+        health.requests++;
+        if (signal?.aborted) throw err;
+        this.recordTargetFailure(health, err.message);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Sign a Bedrock request with SigV4 using the proxy's AWS credentials
+   * (AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY / AWS_SESSION_TOKEN).
+   */
+  private signBedrockRequest(provider: ProviderConfig, url: string, headers: Record<string, string>, body: string): Record<string, string> {
+    const credentials = getAwsCredentialsFromEnv();
+    if (!credentials) {
+      throw new ProxyError('Missing credentials. Configure AWS credentials on the proxy or provide a Bedrock API key as a Bearer token in Authorization header.', 401, 'authentication_error');
+    }
+    return signRequest({
+      method: 'POST',
+      url,
+      headers,
+      body,
+      region: resolveAwsRegion(provider, url),
+      service: 'bedrock',
+      credentials,
+    });
+  }
+
+  private getTargetHealth(providerId: string, index: number): TargetHealth {
+    let health = this.targetHealth.get(providerId);
+    if (!health) {
+      health = [];
+      this.targetHealth.set(providerId, health);
+    }
+    if (!health[index]) {
+      health[index] = { breaker: new CircuitBreaker(), requests: 0, failures: 0, lastError: null, lastFailureAt: null };
+    }
+    return health[index];
+  }
+
+  private recordTargetFailure(health: TargetHealth, error: string): void {
+    health.failures++;
+    health.lastError = error;
+    health.lastFailureAt = new Date().toISOString();
+  }
+
+  private getUpstreamStats(): UpstreamStats[] {
+    const stats: UpstreamStats[] = [];
+    for (const provider of this.providers.list()) {
+      getProviderTargets(provider).forEach((target, index) => {
+        const health = this.targetHealth.get(provider.id)?.[index];
+        stats.push({
+          provider: provider.id,
+          baseUrl: target.baseUrl,
+          priority: target.priority,
+          weight: target.weight,
+          state: health?.breaker.state ?? 'closed',
+          requests: health?.requests ?? 0,
+          failures: health?.failures ?? 0,
+          lastError: health?.lastError ?? null,
+          lastFailureAt: health?.lastFailureAt ?? null,
+        });
+      });
+    }
+    return stats;
+  }
+
+  /**
+   * A signal that aborts when the client disconnects before the response is complete,
+   * so the upstream request (and any pending retries) is cancelled too.
+   */
+  private getClientSignal(res: Response): AbortSignal {
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    return controller.signal;
+  }
+
+  private getQueryString(req: Request): string {
+    return req.url.includes('?') ? '?' + req.url.split('?')[1] : '';
+  }
+
+  private async relayResponse(
+    upstreamRes: globalThis.Response,
+    res: Response,
+    sessionId: string,
+    hydrate: boolean,
+    stream: boolean,
+    format: StreamFormat = 'openai'
+  ): Promise<void> {
+    this.setSummaryHeaders(res, sessionId);
+    if (stream) {
+      await this.handleStreaming(upstreamRes, res, sessionId, hydrate, format);
+      return;
+    }
+
+    const responseBody = await this.hydrateResponse(await this.parseBody(upstreamRes), sessionId, hydrate);
+    if (hydrate) this.stats.requestsHydrated++;
+
+    res.status(upstreamRes.status).json(responseBody);
+  }
+
+  /**
+   * Tell the client its session ID (generated when it sent none, so it can continue the
+   * session or hydrate later) and summarize what was detected in its request.
+   * Must run before the response headers are written.
+   */
+  private setSummaryHeaders(res: Response, sessionId: string): void {
+    res.setHeader('x-anonamoose-session', sessionId);
+    const detections = this.requestContext.getStore()?.detections;
+    if (!detections) return;
+
+    res.setHeader('x-anonamoose-detections', String(detections.length));
+    if (detections.length > 0) {
+      res.setHeader('x-anonamoose-categories', [...new Set(detections.map(d => d.category))].join(','));
+      res.setHeader('x-anonamoose-layers', [...new Set(detections.map(d => d.type))].join(','));
+    }
+  }
+
+  private async parseBody(response: globalThis.Response): Promise<any> {
     const text = await response.text();
     try {
       return JSON.parse(text);
@@ -1157,7 +2515,8 @@ export class ProxyServer {
     upstreamRes: globalThis.Response,
     res: Response,
     sessionId: string,
-    hydrate: boolean
+    hydrate: boolean,
+    format: StreamFormat
   ): Promise<void> {
     res.writeHead(upstreamRes.status, {
       'Content-Type': 'text/event-stream',
@@ -1172,42 +2531,266 @@ export class ProxyServer {
     }
 
     const decoder = new TextDecoder();
-    const entry = this.sessionTokens.get(sessionId);
+    const rehydrator = await this.createStreamRehydrator(sessionId, format, hydrate);
     let buffer = '';
 
     try {
       while (true) {
         const { done, value } = await reader.read();
         if (done) {
-          // Flush remaining buffer
-          if (buffer && hydrate && entry) {
-            for (const [tokenized, original] of entry.tokens) {
-              buffer = buffer.replaceAll(tokenized, original);
-            }
+          // Flush remaining buffer, then any text still held back
+          if (buffer && rehydrator) {
+            buffer = this.hydrateSseEvent(buffer, rehydrator);
           }
           if (buffer) res.write(buffer);
+          if (rehydrator) {
+            for (const payload of rehydrator.end()) {
+              res.write(`data: ${JSON.stringify(payload)}\n\n`);
+            }
+          }
           break;
         }
 
         buffer += decoder.decode(value, { stream: true });
 
-        // Process complete SSE events (ending with \n\n)
-        let boundaryIndex: number;
-        while ((boundaryIndex = buffer.indexOf('\n\n')) !== -1) {
-          let event = buffer.slice(0, boundaryIndex + 2);
-          buffer = buffer.slice(boundaryIndex + 2);
+        // Process complete SSE events (ending with a blank line, \n\n or \r\n\r\n)
+        let boundary: RegExpExecArray | null;
+        while ((boundary = SSE_EVENT_BOUNDARY.exec(buffer)) !== null) {
+          const end = boundary.index + boundary[0].length;
+          let event = buffer.slice(0, end);
+          buffer = buffer.slice(end);
 
-          if (hydrate && entry) {
-            for (const [tokenized, original] of entry.tokens) {
-              event = event.replaceAll(tokenized, original);
-            }
+          if (rehydrator) {
+            event = this.hydrateSseEvent(event, rehydrator);
           }
 
           res.write(event);
         }
       }
     } catch (err) {
-      console.error('Stream error:', err);
+      // An aborted read after the client disconnected is expected
+      if (!res.destroyed) console.error('Stream error:', err);
+    } finally {
+      reader.releaseLock();
+      res.end();
+    }
+  }
+
+  /**
+   * Stream a JSON array response (Gemini's streamGenerateContent without alt=sse),
+   * hydrating each top-level element as soon as it is complete.
+   */
+  private async handleJsonArrayStreaming(
+    upstreamRes: globalThis.Response,
+    res: Response,
+    sessionId: string,
+    hydrate: boolean
+  ): Promise<void> {
+    this.setSummaryHeaders(res, sessionId);
+    res.writeHead(upstreamRes.status, {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+
+    const reader = upstreamRes.body?.getReader();
+    if (!reader) {
+      res.end();
+      return;
+    }
+
+    const decoder = new TextDecoder();
+    const rehydrator = await this.createStreamRehydrator(sessionId, 'gemini', hydrate);
+    let buffer = '';
+    // Scanner state, carried across chunks
+    let scanned = 0;
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let elementStart = -1;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          // Emit any held-back text as extra elements before the closing bracket
+          const held = rehydrator ? rehydrator.end() : [];
+          res.write(held.map(element => `,${JSON.stringify(element)}`).join('') + buffer);
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+
+        for (let i = scanned; i < buffer.length; i++) {
+          const ch = buffer[i];
+          if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+          }
+          if (ch === '"') {
+            inString = true;
+          } else if (ch === '{' || ch === '[') {
+            if (depth === 1 && ch === '{') elementStart = i;
+            depth++;
+          } else if (ch === '}' || ch === ']') {
+            depth--;
+            if (depth === 1 && elementStart !== -1) {
+              let element = buffer.slice(elementStart, i + 1);
+              if (rehydrator) {
+                try {
+                  element = rehydrator.process(JSON.parse(element)).map(e => JSON.stringify(e)).join(',');
+                } catch {
+                  // Not valid JSON — forward the element untouched
+                }
+              }
+              res.write(buffer.slice(0, elementStart) + element);
+              buffer = buffer.slice(i + 1);
+              i = -1;
+              elementStart = -1;
+            }
+          }
+        }
+        scanned = buffer.length;
+      }
+      if (hydrate) this.stats.requestsHydrated++;
+    } catch (err) {
+      // An aborted read after the client disconnected is expected
+      if (!res.destroyed) console.error('Stream error:', err);
+    } finally {
+      reader.releaseLock();
+      res.end();
+    }
+  }
+
+  /**
+   * Stream a newline-delimited JSON response (Ollama), hydrating each line as it completes.
+   */
+  private async handleNdjsonStreaming(
+    upstreamRes: globalThis.Response,
+    res: Response,
+    sessionId: string,
+    hydrate: boolean,
+    format: StreamFormat
+  ): Promise<void> {
+    this.setSummaryHeaders(res, sessionId);
+    res.writeHead(upstreamRes.status, {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+
+    const reader = upstreamRes.body?.getReader();
+    if (!reader) {
+      res.end();
+      return;
+    }
+
+    const decoder = new TextDecoder();
+    const rehydrator = await this.createStreamRehydrator(sessionId, format, hydrate);
+    let buffer = '';
+
+    const hydrateLine = (line: string): string => {
+      if (!rehydrator || !line.trim()) return line;
+      try {
+        return rehydrator.process(JSON.parse(line)).map(e => JSON.stringify(e)).join('\n');
+      } catch {
+        if (!hydrate) return line;
+        return replaceTokens(line, this.sessionTokens.get(sessionId)?.tokens ?? new Map());
+      }
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          // Flush an unterminated last line, then any text still held back
+          const lines = buffer ? [hydrateLine(buffer)] : [];
+          if (rehydrator) lines.push(...rehydrator.end().map(e => JSON.stringify(e)));
+          if (lines.length) res.write(lines.join('\n') + '\n');
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 1);
+          res.write(hydrateLine(line) + '\n');
+        }
+      }
+    } catch (err) {
+      // An aborted read after the client disconnected is expected
+      if (!res.destroyed) console.error('Stream error:', err);
+    } finally {
+      reader.releaseLock();
+      res.end();
+    }
+  }
+
+  /**
+   * Relay a ConverseStream response (AWS event stream framing). Each event is decoded,
+   * hydrated as `{ [eventType]: payload }`, and re-encoded with fresh checksums.
+   */
+  private async handleEventStreaming(
+    upstreamRes: globalThis.Response,
+    res: Response,
+    sessionId: string,
+    hydrate: boolean
+  ): Promise<void> {
+    this.setSummaryHeaders(res, sessionId);
+    res.writeHead(upstreamRes.status, {
+      'Content-Type': 'application/vnd.amazon.eventstream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+
+    const reader = upstreamRes.body?.getReader();
+    if (!reader) {
+      res.end();
+      return;
+    }
+
+    const decoder = new EventStreamDecoder();
+    const rehydrator = await this.createStreamRehydrator(sessionId, 'bedrock', hydrate);
+    const encodeEvent = (event: any) => {
+      const [type] = Object.keys(event);
+      return encodeJsonEvent(type, event[type]);
+    };
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          if (rehydrator) {
+            for (const event of rehydrator.end()) res.write(encodeEvent(event));
+          }
+          break;
+        }
+
+        if (!rehydrator) {
+          res.write(value);
+          continue;
+        }
+
+        for (const message of decoder.push(value)) {
+          const eventType = getHeader(message, ':event-type');
+          if (getHeader(message, ':message-type') !== 'event' || !eventType) {
+            res.write(encodeMessage(message));
+            continue;
+          }
+
+          const events = rehydrator.process({ [eventType]: JSON.parse(message.payload.toString('utf8')) });
+          const hydrated = events.pop();
+          for (const event of events) res.write(encodeEvent(event));
+          res.write(encodeMessage({ headers: message.headers, payload: Buffer.from(JSON.stringify(hydrated[eventType]), 'utf8') }));
+        }
+      }
+    } catch (err) {
+      // An aborted read after the client disconnected is expected
+      if (!res.destroyed) console.error('Stream error:', err);
     } finally {
       reader.releaseLock();
       res.end();
@@ -1221,8 +2804,8 @@ export class ProxyServer {
       return;
     }
 
+    const provider = this.getProvider(req, 'openai', 'openai');
     const apiPath = req.path.startsWith('/v1/') ? req.path : `/v1${req.path}`;
-    const url = `https://api.openai.com${apiPath}${req.url.includes('?') ? '?' + req.url.split('?')[1] : ''}`;
     const headers: Record<string, string> = {
       'Authorization': `Bearer ${apiKey}`,
     };
@@ -1230,7 +2813,7 @@ export class ProxyServer {
       headers['Content-Type'] = req.headers['content-type'] as string;
     }
 
-    const fetchOptions: RequestInit = {
+    const fetchOptions: RequestInit & { headers: Record<string, string> } = {
       method: req.method,
       headers,
     };
@@ -1238,7 +2821,7 @@ export class ProxyServer {
       fetchOptions.body = JSON.stringify(req.body);
     }
 
-    const response = await fetch(url, fetchOptions);
+    const response = await this.fetchFromProvider(provider, `${apiPath}${this.getQueryString(req)}`, fetchOptions, this.getClientSignal(res));
     res.status(response.status);
     response.headers.forEach((value, key) => {
       if (!['content-encoding', 'transfer-encoding', 'connection'].includes(key.toLowerCase())) {
@@ -1249,14 +2832,25 @@ export class ProxyServer {
     res.send(data);
   }
 
-  private sendError(res: Response, err: any): void {
+  /**
+   * Send an error in the shape the client's SDK expects: OpenAI's by default,
+   * or Anthropic's `{ type: 'error', error }` envelope.
+   */
+  private sendError(res: Response, err: any, format: 'openai' | 'anthropic' = 'openai'): void {
     const status = err.status || err.statusCode || 500;
-    const message = status >= 500 ? 'Internal server error' : (err.message || 'Unknown error');
+    // ProxyError messages are written for clients; anything else may leak internals
+    const message = status >= 500 && !(err instanceof ProxyError) ? 'Internal server error' : (err.message || 'Unknown error');
+    const type = err.type || 'api_error';
 
+    if (format === 'anthropic') {
+      res.status(status).json({ type: 'error', error: { type, message } });
+      return;
+    }
     res.status(status).json({
       error: {
         message,
-        type: err.type || 'api_error'
+        type,
+        ...(err.code ? { code: err.code } : {})
       }
     });
   }
@@ -0,0 +1,95 @@
+import { createHash, createHmac } from 'crypto';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  region: string;
+  service: string;
+  credentials: AwsCredentials;
+  /** Signing time; defaults to now */
+  date?: Date;
+}
+
+/**
+ * Read AWS credentials from the standard environment variables.
+ */
+export function getAwsCredentialsFromEnv(): AwsCredentials | null {
+  const accessKeyId = process.env.AWS_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
+  if (!accessKeyId || !secretAccessKey) return null;
+  return { accessKeyId, secretAccessKey, sessionToken: process.env.AWS_SESSION_TOKEN || undefined };
+}
+
+function sha256Hex(data: string): string {
+  return createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+// RFC 3986 encoding as SigV4 requires: encodeURIComponent leaves !'()* unescaped
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Sign a request with AWS Signature Version 4. Returns the request headers plus
+ * `Authorization`, `X-Amz-Date` and, for temporary credentials, `X-Amz-Security-Token`.
+ * All given headers are signed, along with `host`.
+ */
+export function signRequest(request: SignableRequest): Record<string, string> {
+  const url = new URL(request.url);
+  const amzDate = (request.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${request.region}/${request.service}/aws4_request`;
+
+  const headers: Record<string, string> = { ...request.headers, 'X-Amz-Date': amzDate };
+  if (request.credentials.sessionToken) {
+    headers['X-Amz-Security-Token'] = request.credentials.sessionToken;
+  }
+
+  const canonicalHeaders = new Map<string, string>([['host', url.host]]);
+  for (const [name, value] of Object.entries(headers)) {
+    canonicalHeaders.set(name.toLowerCase(), value.trim().replace(/\s+/g, ' '));
+  }
+  const headerNames = [...canonicalHeaders.keys()].sort();
+  const signedHeaders = headerNames.join(';');
+
+  // Outside S3, each path segment is encoded again on top of the request's own encoding
+  const canonicalUri = url.pathname.split('/').map(encodeRfc3986).join('/');
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([k, v]) => [encodeRfc3986(k), encodeRfc3986(v)])
+    .sort(([ka, va], [kb, vb]) => (ka === kb ? (va < vb ? -1 : 1) : ka < kb ? -1 : 1))
+    .map(([k, v]) => `${k}=${v}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalUri,
+    canonicalQuery,
+    headerNames.map(name => `${name}:${canonicalHeaders.get(name)}\n`).join(''),
+    signedHeaders,
+    sha256Hex(request.body),
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const kDate = hmac(`AWS4${request.credentials.secretAccessKey}`, dateStamp);
+  const kRegion = hmac(kDate, request.region);
+  const kService = hmac(kRegion, request.service);
+  const kSigning = hmac(kService, 'aws4_request');
+  const signature = createHmac('sha256', kSigning).update(stringToSign, 'utf8').digest('hex');
+
+  headers['Authorization'] =
+    `AWS4-HMAC-SHA256 Credential=${request.credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
@@ -0,0 +1,201 @@
+import { ProxyError, CircuitOpenError } from './errors.js';
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+export const DEFAULT_MAX_RETRIES = 2;
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const DEFAULT_BACKOFF_MS = 500;
+// A retry-after longer than this is returned to the client rather than waited out
+const MAX_RETRY_DELAY_MS = 30_000;
+
+type BreakerState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Fails fast while an upstream is down. Opens after `threshold` consecutive failed
+ * requests; after `cooldownMs` a single trial request is let through, and its
+ * outcome closes the breaker or re-opens it.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private threshold: number = 5,
+    private cooldownMs: number = 30_000,
+    private now: () => number = Date.now
+  ) {}
+
+  get state(): BreakerState {
+    if (this.openedAt === null) return 'closed';
+    return this.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  allowRequest(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'open' || this.trialInFlight) return false;
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  /** Give up a half-open trial without an outcome, e.g. because the client went away */
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.threshold) {
+      this.openedAt = this.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+export interface UpstreamOptions {
+  /** Time allowed for each attempt to return response headers */
+  timeoutMs: number;
+  maxRetries: number;
+  breaker?: CircuitBreaker;
+  /** Aborted when the client disconnects; cancels the upstream request and any retries */
+  signal?: AbortSignal;
+  /** Base delay for exponential backoff between attempts */
+  backoffMs?: number;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds, or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * fetch() with a per-attempt timeout, retries with exponential backoff on 429/5xx and
+ * network errors (honoring Retry-After), an optional circuit breaker, and cancellation
+ * when the client goes away. Timeouts and network failures surface as ProxyError 504/502.
+ */
+export async function fetchUpstream(url: string, init: RequestInit, options: UpstreamOptions): Promise<globalThis.Response> {
+  const { breaker, signal } = options;
+
+  if (breaker && !breaker.allowRequest()) {
+    throw new CircuitOpenError();
+  }
+
+  try {
+    return await fetchWithRetries(url, init, options);
+  } catch (err) {
+    if (signal?.aborted) breaker?.releaseTrial();
+    throw err;
+  }
+}
+
+async function fetchWithRetries(url: string, init: RequestInit, options: UpstreamOptions): Promise<globalThis.Response> {
+  const { timeoutMs, maxRetries, breaker, signal } = options;
+  const backoffMs = options.backoffMs ?? DEFAULT_BACKOFF_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+
+    const controller = new AbortController();
+    const onClientAbort = () => controller.abort(signal!.reason);
+    // Left attached after headers arrive so a disconnect also cancels the body stream
+    signal?.addEventListener('abort', onClientAbort, { once: true });
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+
+    let response: globalThis.Response;
+    try {
+      response = await fetch(url, { ...init, signal: controller.signal });
+    } catch (err) {
+      signal?.removeEventListener('abort', onClientAbort);
+      if (signal?.aborted) throw err;
+
+      const error = timedOut
+        ? new ProxyError('Upstream request timed out', 504, 'api_error')
+        : new ProxyError('Upstream request failed', 502, 'api_error');
+      if (attempt >= maxRetries) {
+        breaker?.recordFailure();
+        throw error;
+      }
+      await sleep(backoffMs * 2 ** attempt, signal);
+      continue;
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (RETRYABLE_STATUSES.has(response.status) && attempt < maxRetries) {
+      const delay = parseRetryAfter(response.headers.get('retry-after')) ?? backoffMs * 2 ** attempt;
+      if (delay <= MAX_RETRY_DELAY_MS) {
+        signal?.removeEventListener('abort', onClientAbort);
+        await response.body?.cancel().catch(() => {});
+        await sleep(delay, signal);
+        continue;
+      }
+    }
+
+    // A 429 means the provider is up, just busy
+    if (response.status >= 500) breaker?.recordFailure();
+    else breaker?.recordSuccess();
+    return response;
+  }
+}
+
+/**
+ * Order targets for one request: priority groups ascending, and within a group a
+ * weighted random order, so the first entry is the weighted pick and the rest are failovers.
+ */
+export function orderTargets<T extends { weight: number; priority: number }>(targets: T[], random: () => number = Math.random): T[] {
+  const priorities = [...new Set(targets.map(t => t.priority))].sort((a, b) => a - b);
+  const ordered: T[] = [];
+
+  for (const priority of priorities) {
+    const group = targets.filter(t => t.priority === priority);
+    while (group.length > 0) {
+      const total = group.reduce((sum, t) => sum + t.weight, 0);
+      let pick = random() * total;
+      let index = 0;
+      while (index < group.length - 1 && pick >= group[index].weight) {
+        pick -= group[index].weight;
+        index++;
+      }
+      ordered.push(...group.splice(index, 1));
+    }
+  }
+  return ordered;
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EventStreamDecoder,
+  crc32,
+  encodeJsonEvent,
+  encodeMessage,
+  getHeader,
+} from '../../src/proxy/eventstream.js';
+
+describe('crc32', () => {
+  it('should match the standard check value', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('event stream codec', () => {
+  it('should round-trip a JSON event', () => {
+    const frame = encodeJsonEvent('contentBlockDelta', { contentBlockIndex: 0, delta: { text: 'Hi' } });
+    const [message] = new EventStreamDecoder().push(frame);
+    expect(getHeader(message, ':event-type')).toBe('contentBlockDelta');
+    expect(getHeader(message, ':message-type')).toBe('event');
+    expect(JSON.parse(message.payload.toString())).toEqual({ contentBlockIndex: 0, delta: { text: 'Hi' } });
+  });
+
+  it('should preserve non-string headers byte for byte', () => {
+    const frame = encodeMessage({
+      headers: [
+        { name: 'flag', type: 0, value: Buffer.alloc(0) },
+        { name: 'count', type: 4, value: Buffer.from([0, 0, 0, 7]) },
+        { name: 'blob', type: 6, value: Buffer.from([1, 2, 3]) },
+      ],
+      payload: Buffer.from('x'),
+    });
+    const [message] = new EventStreamDecoder().push(frame);
+    expect(encodeMessage(message).equals(frame)).toBe(true);
+  });
+
+  it('should decode messages split across chunks', () => {
+    const frames = Buffer.concat([encodeJsonEvent('messageStart', { role: 'assistant' }), encodeJsonEvent('messageStop', {})]);
+    const decoder = new EventStreamDecoder();
+    const types: Array<string | undefined> = [];
+    for (let i = 0; i < frames.length; i += 7) {
+      types.push(...decoder.push(frames.subarray(i, i + 7)).map(m => getHeader(m, ':event-type')));
+    }
+    expect(types).toEqual(['messageStart', 'messageStop']);
+    expect(decoder.hasPending()).toBe(false);
+  });
+
+  it('should reject a corrupted message', () => {
+    const frame = encodeJsonEvent('messageStop', { stopReason: 'end_turn' });
+    frame[frame.length - 6] ^= 0xff;
+    expect(() => new EventStreamDecoder().push(frame)).toThrow('checksum');
+  });
+});
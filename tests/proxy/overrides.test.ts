@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseRedactionOverrides, normalizeCategoryOperators } from '../../src/proxy/overrides.js';
+import { ProxyError } from '../../src/proxy/errors.js';
+
+describe('parseRedactionOverrides', () => {
+  it('should return no overrides without headers', () => {
+    expect(parseRedactionOverrides({ 'content-type': 'application/json' })).toEqual({});
+  });
+
+  it('should parse the locale, with "all" clearing it', () => {
+    expect(parseRedactionOverrides({ 'x-anonamoose-locale': 'nz' })).toEqual({ locale: 'NZ' });
+    expect(parseRedactionOverrides({ 'x-anonamoose-locale': 'all' })).toEqual({ locale: null });
+  });
+
+  it('should enable exactly the listed layers', () => {
+    expect(parseRedactionOverrides({ 'x-anonamoose-layers': 'dictionary, regex' })).toEqual({
+      enableDictionary: true,
+      enableNER: false,
+      enableRegex: true,
+      enableNames: false,
+    });
+  });
+
+  it('should parse the minimum confidence and excluded categories', () => {
+    expect(parseRedactionOverrides({
+      'x-anonamoose-min-confidence': '0.85',
+      'x-anonamoose-categories-exclude': 'url, ip_address',
+    })).toEqual({ minConfidence: 0.85, excludeCategories: ['URL', 'IP_ADDRESS'] });
+  });
+
+  it('should reject invalid values with a 400', () => {
+    const invalid = [
+      { 'x-anonamoose-locale': 'FR' },
+      { 'x-anonamoose-layers': 'regex,magic' },
+      { 'x-anonamoose-min-confidence': '1.5' },
+      { 'x-anonamoose-min-confidence': '' },
+      { 'x-anonamoose-categories-exclude': 'URL;DROP' },
+    ];
+    for (const headers of invalid) {
+      let error: unknown;
+      try {
+        parseRedactionOverrides(headers);
+      } catch (err) {
+        error = err;
+      }
+      expect(error).toBeInstanceOf(ProxyError);
+      expect((error as ProxyError).status).toBe(400);
+    }
+  });
+});
+
+describe('normalizeCategoryOperators', () => {
+  it('should upper-case categories and globs', () => {
+    expect(normalizeCategoryOperators({ credit_card: 'mask', 'date_of_birth_*': 'truncate' }))
+      .toEqual({ CREDIT_CARD: 'mask', 'DATE_OF_BIRTH_*': 'truncate' });
+  });
+
+  it('should reject unknown operators and malformed values', () => {
+    expect(normalizeCategoryOperators({ EMAIL: 'encrypt' })).toBeNull();
+    expect(normalizeCategoryOperators({ 'EMAIL;DROP': 'drop' })).toBeNull();
+    expect(normalizeCategoryOperators(['EMAIL'])).toBeNull();
+    expect(normalizeCategoryOperators(null)).toBeNull();
+  });
+});
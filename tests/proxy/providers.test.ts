@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { initializeSchema } from '../../src/core/database.js';
+import {
+  ProviderRegistry,
+  validateProvider,
+  getProviderTargets,
+  toPublicProvider,
+  withTargetCredentials,
+  resolveAwsRegion,
+} from '../../src/proxy/providers.js';
+
+describe('ProviderRegistry (SQLite)', () => {
+  let db: InstanceType<typeof Database>;
+  let registry: ProviderRegistry;
+
+  beforeEach(() => {
+    db = new Database(':memory:');
+    initializeSchema(db);
+    registry = new ProviderRegistry(db);
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('should seed the built-in providers', () => {
+    expect(registry.get('openai')).toEqual({ id: 'openai', type: 'openai', baseUrl: 'https://api.openai.com' });
+    expect(registry.get('anthropic')).toEqual({ id: 'anthropic', type: 'anthropic', baseUrl: 'https://api.anthropic.com' });
+    expect(registry.get('gemini')).toEqual({ id: 'gemini', type: 'gemini', baseUrl: 'https://generativelanguage.googleapis.com' });
+    expect(registry.get('ollama')).toEqual({ id: 'ollama', type: 'ollama', baseUrl: 'http://localhost:11434' });
+  });
+
+  it('should add and list a custom provider', () => {
+    registry.set({ id: 'vllm', type: 'openai', baseUrl: 'http://vllm:8000' });
+    const ids = registry.list().map(p => p.id);
+    expect(ids).toEqual(['anthropic', 'gemini', 'ollama', 'openai', 'vllm']);
+  });
+
+  it('should strip trailing slashes from baseUrl', () => {
+    const saved = registry.set({ id: 'openrouter', type: 'openai', baseUrl: 'https://openrouter.ai/api/' });
+    expect(saved.baseUrl).toBe('https://openrouter.ai/api');
+    expect(registry.get('openrouter')!.baseUrl).toBe('https://openrouter.ai/api');
+  });
+
+  it('should update an existing provider', () => {
+    registry.set({ id: 'openai', type: 'openai', baseUrl: 'http://gateway.internal' });
+    expect(registry.get('openai')!.baseUrl).toBe('http://gateway.internal');
+  });
+
+  it('should not overwrite edited built-ins on re-initialization', () => {
+    registry.set({ id: 'openai', type: 'openai', baseUrl: 'http://gateway.internal' });
+    new ProviderRegistry(db);
+    expect(registry.get('openai')!.baseUrl).toBe('http://gateway.internal');
+  });
+
+  it('should remove a provider', () => {
+    registry.set({ id: 'lmstudio', type: 'openai', baseUrl: 'http://localhost:1234' });
+    expect(registry.remove('lmstudio')).toBe(true);
+    expect(registry.get('lmstudio')).toBeNull();
+    expect(registry.remove('lmstudio')).toBe(false);
+  });
+
+  it('should store a target pool and default baseUrl to the first target', () => {
+    const saved = registry.set({
+      id: 'pool',
+      type: 'openai',
+      targets: [{ baseUrl: 'http://a:8000/', weight: 3 }, { baseUrl: 'http://b:8000', priority: 1 }],
+    });
+    expect(saved.baseUrl).toBe('http://a:8000');
+    expect(registry.get('pool')!.targets).toEqual([{ baseUrl: 'http://a:8000', weight: 3 }, { baseUrl: 'http://b:8000', priority: 1 }]);
+  });
+
+  it('should identify built-in providers', () => {
+    expect(ProviderRegistry.isBuiltIn('openai')).toBe(true);
+    expect(ProviderRegistry.isBuiltIn('vllm')).toBe(false);
+  });
+});
+
+describe('validateProvider', () => {
+  it('should accept a valid provider', () => {
+    expect(validateProvider('vllm', { type: 'openai', baseUrl: 'http://vllm:8000' })).toBeNull();
+  });
+
+  it('should reject invalid ids', () => {
+    expect(validateProvider('bad id!', { type: 'openai', baseUrl: 'http://vllm:8000' })).toMatch(/provider id/);
+  });
+
+  it('should reject unknown types', () => {
+    expect(validateProvider('vllm', { type: 'cohere', baseUrl: 'http://vllm:8000' })).toMatch(/type must be/);
+  });
+
+  it('should reject non-http URLs', () => {
+    expect(validateProvider('vllm', { type: 'openai', baseUrl: 'file:///etc/passwd' })).toMatch(/http or https/);
+    expect(validateProvider('vllm', { type: 'openai', baseUrl: 'not a url' })).toMatch(/valid URL/);
+  });
+
+  it('should reject a baseUrl with a query string', () => {
+    expect(validateProvider('vllm', { type: 'openai', baseUrl: 'http://vllm:8000?x=1' })).toMatch(/query string/);
+  });
+
+  it('should validate timeoutMs and maxRetries', () => {
+    expect(validateProvider('vllm', { type: 'openai', baseUrl: 'http://vllm:8000', timeoutMs: 5000, maxRetries: 0 })).toBeNull();
+    expect(validateProvider('vllm', { type: 'openai', baseUrl: 'http://vllm:8000', timeoutMs: 10 })).toMatch(/timeoutMs/);
+    expect(validateProvider('vllm', { type: 'openai', baseUrl: 'http://vllm:8000', maxRetries: 1.5 })).toMatch(/maxRetries/);
+  });
+
+  it('should validate targets', () => {
+    const base = { type: 'openai' };
+    expect(validateProvider('pool', { ...base, targets: [{ baseUrl: 'http://a:8000', weight: 2, priority: 1, apiKey: 'sk-a' }] })).toBeNull();
+    expect(validateProvider('pool', { ...base, targets: [] })).toMatch(/targets must be/);
+    expect(validateProvider('pool', { ...base, targets: [{ baseUrl: 'ftp://a' }] })).toMatch(/targets\[0\]\.baseUrl/);
+    expect(validateProvider('pool', { ...base, targets: [{ baseUrl: 'http://a', weight: 0 }] })).toMatch(/weight/);
+    expect(validateProvider('pool', { ...base, targets: [{ baseUrl: 'http://a', priority: -1 }] })).toMatch(/priority/);
+    expect(validateProvider('pool', { ...base, targets: [{ baseUrl: 'http://a', apiKey: '' }] })).toMatch(/apiKey/);
+  });
+
+  it('should validate the AWS region', () => {
+    expect(validateProvider('bedrock', { type: 'bedrock', baseUrl: 'http://localhost:4000', region: 'eu-west-1' })).toBeNull();
+    expect(validateProvider('bedrock', { type: 'bedrock', baseUrl: 'http://localhost:4000', region: 'Europe' })).toContain('region');
+  });
+
+  it('should still require baseUrl without targets', () => {
+    expect(validateProvider('vllm', { type: 'openai' })).toMatch(/baseUrl must be a string/);
+  });
+});
+
+describe('provider targets', () => {
+  it('should treat baseUrl as a single target when no pool is set', () => {
+    expect(getProviderTargets({ id: 'x', type: 'openai', baseUrl: 'http://a' })).toEqual([{ baseUrl: 'http://a', weight: 1, priority: 0 }]);
+  });
+
+  it('should withhold target API keys from public output', () => {
+    const provider = toPublicProvider({ id: 'x', type: 'openai', baseUrl: 'http://a', targets: [{ baseUrl: 'http://a', apiKey: 'sk-secret' }, { baseUrl: 'http://b' }] });
+    expect(provider.targets).toEqual([{ baseUrl: 'http://a', hasApiKey: true }, { baseUrl: 'http://b' }]);
+  });
+
+  it('should replace the client credential with the target key', () => {
+    expect(withTargetCredentials('openai', '/v1/chat/completions', { 'Authorization': 'Bearer client' }, 'sk-t').headers)
+      .toEqual({ 'Authorization': 'Bearer sk-t' });
+    expect(withTargetCredentials('anthropic', '/v1/messages', { 'Authorization': 'Bearer client', 'anthropic-version': 'v' }, 'sk-t').headers)
+      .toEqual({ 'x-api-key': 'sk-t', 'anthropic-version': 'v' });
+    expect(withTargetCredentials('azure', '/openai/x', { 'api-key': 'client' }, 'az-t').headers).toEqual({ 'api-key': 'az-t' });
+  });
+
+  it('should move a Gemini query key to the header', () => {
+    const result = withTargetCredentials('gemini', '/v1beta/models/m:streamGenerateContent?alt=sse&key=client', {}, 'g-t');
+    expect(result).toEqual({ path: '/v1beta/models/m:streamGenerateContent?alt=sse', headers: { 'x-goog-api-key': 'g-t' } });
+  });
+
+  it('should resolve the AWS region from config, hostname, then environment', () => {
+    const provider = { id: 'bedrock', type: 'bedrock' as const, baseUrl: 'https://bedrock-runtime.eu-central-1.amazonaws.com' };
+    expect(resolveAwsRegion({ ...provider, region: 'us-west-2' }, provider.baseUrl)).toBe('us-west-2');
+    expect(resolveAwsRegion(provider, provider.baseUrl)).toBe('eu-central-1');
+    const saved = process.env.AWS_REGION;
+    process.env.AWS_REGION = 'ap-south-1';
+    try {
+      expect(resolveAwsRegion(provider, 'http://localhost:4000')).toBe('ap-south-1');
+    } finally {
+      if (saved === undefined) delete process.env.AWS_REGION;
+      else process.env.AWS_REGION = saved;
+    }
+  });
+});
@@ -0,0 +1,613 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { ProxyServer } from '../../src/proxy/server.js';
+import { getDatabase, setSetting } from '../../src/core/database.js';
+
+const CARD = '4111 1111 1111 1111';
+
+let server: ProxyServer;
+let proxy: http.Server;
+let upstream: http.Server;
+let proxyUrl: string;
+// Bodies the upstream received, and the reply it sends (the last message's content by default)
+let received: any[] = [];
+let reply: string | null = null;
+// The path and headers of each upstream request, and an optional handler replacing the default reply
+let upstreamRequests: { url: string; headers: http.IncomingHttpHeaders }[] = [];
+let respond: ((res: http.ServerResponse, body: any) => void) | null = null;
+
+const listen = (target: http.Server): Promise<string> =>
+  new Promise(resolve => target.listen(0, '127.0.0.1', () => resolve(`http://127.0.0.1:${(target.address() as AddressInfo).port}`)));
+
+const close = (target: http.Server): Promise<void> => new Promise(resolve => target.close(() => resolve()));
+
+function post(path: string, body: unknown, headers: Record<string, string> = {}) {
+  return fetch(`${proxyUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+}
+
+function chat(content: string, headers: Record<string, string> = {}, path = '/v1/chat/completions') {
+  return post(path, { model: 'gpt-4o', messages: [{ role: 'user', content }] }, { 'Authorization': 'Bearer sk-test', ...headers });
+}
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  upstream = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const parsed = JSON.parse(body);
+      received.push(parsed);
+      upstreamRequests.push({ url: req.url!, headers: req.headers });
+      if (respond) return respond(res, parsed);
+      const content = reply ?? parsed.messages?.at(-1)?.content ?? '';
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ id: 'chatcmpl-1', object: 'chat.completion', choices: [{ index: 0, message: { role: 'assistant', content } }] }));
+    });
+  });
+  const upstreamUrl = await listen(upstream);
+
+  server = new ProxyServer({ port: 0, managementPort: 0, dbPath: ':memory:' });
+  (server as any).providers.set({ id: 'openai', type: 'openai', baseUrl: upstreamUrl });
+  proxy = (server as any).app.listen(0);
+  await new Promise(resolve => proxy.once('listening', resolve));
+  proxyUrl = `http://127.0.0.1:${(proxy.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await close(proxy);
+  await close(upstream);
+  server.destroy();
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  const db = getDatabase();
+  setSetting(db, 'enableNER', false);
+  setSetting(db, 'blockCategories', []);
+  setSetting(db, 'egressScan', 'off');
+  received = [];
+  reply = null;
+  upstreamRequests = [];
+  respond = null;
+});
+
+describe('block policy', () => {
+  beforeEach(() => {
+    setSetting(getDatabase(), 'blockCategories', ['CREDIT_CARD']);
+  });
+
+  it('should block a request containing a blocked category', async () => {
+    const res = await chat(`My card is ${CARD}`);
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe('pii_blocked');
+    expect(received).toHaveLength(0);
+  });
+
+  it.each([
+    ['x-anonamoose-layers', 'dictionary'],
+    ['x-anonamoose-min-confidence', '1'],
+    ['x-anonamoose-categories-exclude', 'CREDIT_CARD'],
+    ['x-anonamoose-locale', 'NZ'],
+    ['x-anonamoose-redact', 'false'],
+    ['x-anonamoose-audit', 'true'],
+  ])('should still block with %s: %s', async (header, value) => {
+    const res = await chat(`My card is ${CARD}`, { [header]: value });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error.code).toBe('pii_blocked');
+    expect(received).toHaveLength(0);
+  });
+
+  it('should check the whole body before redacting or recording any of it', async () => {
+    const session = '0b6c2e4a-5d7f-4e1a-9c3b-8f2d6a4e1c70';
+    const redact = vi.spyOn((server as any).redactionPipeline, 'redact');
+    const detected = (server as any).stats.piiDetected;
+    const res = await fetch(`${proxyUrl}/v1/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer sk-test', 'x-anonamoose-session': session, 'x-anonamoose-layers': 'regex' },
+      body: JSON.stringify({ model: 'gpt-4o', messages: [
+        { role: 'user', content: 'Email jane@example.com' },
+        { role: 'user', content: `My card is ${CARD}` },
+      ] }),
+    });
+    expect(res.status).toBe(400);
+    expect(redact).not.toHaveBeenCalled();
+    expect((server as any).stats.piiDetected).toBe(detected);
+    expect(await (server as any).rehydrationStore.retrieve(session)).toBeNull();
+    expect((server as any).redactionLog.at(-1).redactedPreview).toBe('Blocked: CREDIT_CARD (1)');
+    redact.mockRestore();
+  });
+
+  it('should forward the body as sent with redaction off when nothing is blocked', async () => {
+    const res = await chat('Email jane@example.com', { 'x-anonamoose-redact': 'false' });
+    expect(res.status).toBe(200);
+    expect(received[0].messages[0].content).toBe('Email jane@example.com');
+  });
+});
+
+describe('egress scan', () => {
+  beforeEach(() => {
+    setSetting(getDatabase(), 'egressScan', 'mask');
+  });
+
+  it('should scan responses with hydration off', async () => {
+    reply = 'Contact tom@example.org';
+    const res = await chat('Hello', { 'x-anonamoose-hydrate': 'false' });
+    expect((await res.json()).choices[0].message.content).toBe('Contact [EMAIL]');
+  });
+
+  it('should not report originals stored by an earlier request', async () => {
+    const session = '7d1f0c1e-9a8b-4c3d-8e2f-1a2b3c4d5e6f';
+    await chat('Email jane@example.com', { 'x-anonamoose-session': session });
+    // As after a restart: only the persisted session remains
+    (server as any).sessionTokens.clear();
+
+    reply = 'Write to jane@example.com or tom@example.org';
+    const res = await chat('Who should I write to?', { 'x-anonamoose-session': session });
+    expect((await res.json()).choices[0].message.content).toBe('Write to jane@example.com or [EMAIL]');
+  });
+});
+
+describe('embeddings', () => {
+  const embed = (input: string[], headers: Record<string, string> = {}) => fetch(`${proxyUrl}/v1/embeddings`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer sk-test', ...headers },
+    body: JSON.stringify({ model: 'text-embedding-3-small', input }),
+  });
+
+  afterEach(() => {
+    (server as any).hasSessionSecret = false;
+    (server as any).warnedSessionSecret = false;
+  });
+
+  it('should fall back to the per-process secret and warn once without SESSION_SECRET', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const [a, b] = [await embed(['Email jane@example.com']), await embed(['Email jane@example.com'])];
+    expect([a.status, b.status]).toEqual([200, 200]);
+    expect(received[1].input[0]).toBe(received[0].input[0]);
+    expect(received[0].input[0]).not.toContain('jane');
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('SESSION_SECRET');
+    warn.mockRestore();
+  });
+
+  it('should read the session once per batch and reuse placeholders across inputs', async () => {
+    (server as any).hasSessionSecret = true;
+    const retrieve = vi.spyOn((server as any).rehydrationStore, 'retrieve');
+    const res = await embed(['Email jane@example.com', 'Write to jane@example.com', 'CC tom@example.org']);
+    expect(res.status).toBe(200);
+    // Once for the placeholders and once for the single write, whatever the batch size
+    expect(retrieve).toHaveBeenCalledTimes(2);
+
+    const [first, second, third] = received[0].input as string[];
+    const placeholder = first.slice('Email '.length);
+    expect(placeholder).not.toContain('jane');
+    expect(second).toBe(`Write to ${placeholder}`);
+    expect(third).not.toContain(placeholder);
+    retrieve.mockRestore();
+  });
+});
+
+describe('override headers', () => {
+  it('should reject an invalid override on a redacting route', async () => {
+    const res = await chat('Hello', { 'x-anonamoose-min-confidence': '5' });
+    expect(res.status).toBe(400);
+  });
+
+  it('should ignore overrides on routes that do not redact', async () => {
+    const res = await fetch(`${proxyUrl}/api/v1/stats/public`, { headers: { 'x-anonamoose-min-confidence': '5' } });
+    expect(res.status).toBe(200);
+  });
+});
+
+describe('upstream stats', () => {
+  it('should not count an attempt the circuit breaker refused', async () => {
+    (server as any).providers.set({ id: 'backup', type: 'openai', baseUrl: 'http://127.0.0.1:9' });
+    const health = (server as any).getTargetHealth('backup', 0);
+    for (let i = 0; i < 5; i++) health.breaker.recordFailure();
+
+    const res = await chat('Hello', {}, '/p/backup/v1/chat/completions');
+    expect(res.status).toBe(503);
+    expect(health.requests).toBe(0);
+    expect(health.failures).toBe(0);
+  });
+});
+
+describe('placeholder settings', () => {
+  const putSettings = (settings: Record<string, unknown>) => fetch(`${proxyUrl}/api/v1/settings`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer admin-token' },
+    body: JSON.stringify({ settings }),
+  });
+
+  beforeEach(() => {
+    process.env.API_TOKEN = 'admin-token';
+  });
+
+  afterEach(() => {
+    delete process.env.API_TOKEN;
+    const db = getDatabase();
+    setSetting(db, 'placeholderStyle', 'opaque');
+    setSetting(db, 'placeholderPrefix', '\uE000');
+    setSetting(db, 'placeholderSuffix', '\uE001');
+  });
+
+  it('should switch the invisible defaults to brackets for typed placeholders', async () => {
+    const res = await putSettings({ placeholderStyle: 'typed' });
+    const { settings } = await res.json();
+    expect([settings.placeholderPrefix, settings.placeholderSuffix]).toEqual(['[', ']']);
+
+    const chatRes = await chat('Email jane@example.com', { 'x-anonamoose-hydrate': 'false' });
+    expect((await chatRes.json()).choices[0].message.content).toBe('Email [EMAIL_1]');
+  });
+
+  it('should keep a custom prefix and suffix', async () => {
+    const { settings } = await (await putSettings({ placeholderStyle: 'typed', placeholderPrefix: '<', placeholderSuffix: '>' })).json();
+    expect([settings.placeholderPrefix, settings.placeholderSuffix]).toEqual(['<', '>']);
+  });
+
+  it('should refuse an empty prefix or suffix with typed placeholders', async () => {
+    expect((await putSettings({ placeholderStyle: 'typed', placeholderSuffix: '' })).status).toBe(400);
+    await putSettings({ placeholderStyle: 'typed' });
+    expect((await putSettings({ placeholderPrefix: '' })).status).toBe(400);
+  });
+});
+
+describe('conversation sessions', () => {
+  const ollama = (headers: Record<string, string> = {}) => fetch(`${proxyUrl}/api/chat`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ model: 'llama3', stream: false, messages: [{ role: 'user', content: 'Email jane@example.com' }] }),
+  });
+
+  beforeAll(() => {
+    (server as any).providers.set({ id: 'ollama', type: 'ollama', baseUrl: (server as any).providers.get('openai').baseUrl });
+  });
+
+  beforeEach(() => {
+    setSetting(getDatabase(), 'conversationSessions', true);
+  });
+
+  afterEach(() => {
+    setSetting(getDatabase(), 'conversationSessions', false);
+  });
+
+  it('should derive the same session for a client that sends a credential', async () => {
+    const [a, b] = [await ollama({ Authorization: 'Bearer one' }), await ollama({ Authorization: 'Bearer one' })];
+    expect(a.headers.get('x-anonamoose-session')).toBe(b.headers.get('x-anonamoose-session'));
+  });
+
+  it('should not derive a shared session for clients without a credential', async () => {
+    const [a, b] = [await ollama(), await ollama()];
+    expect(a.status).toBe(200);
+    expect(a.headers.get('x-anonamoose-session')).not.toBe(b.headers.get('x-anonamoose-session'));
+  });
+});
+
+describe('Azure OpenAI', () => {
+  beforeAll(() => {
+    (server as any).providers.set({ id: 'azure', type: 'azure', baseUrl: (server as any).providers.get('openai').baseUrl });
+  });
+
+  const azure = (query: string) => post(`/openai/deployments/gpt-4o-prod/chat/completions${query}`,
+    { messages: [{ role: 'user', content: 'Email jane@example.com' }] }, { 'api-key': 'azure-key' });
+
+  it('should redact the request and keep the deployment, api-version and api-key', async () => {
+    const res = await azure('?api-version=2024-06-01');
+    expect(res.status).toBe(200);
+    expect(upstreamRequests[0].url).toBe('/openai/deployments/gpt-4o-prod/chat/completions?api-version=2024-06-01');
+    expect(upstreamRequests[0].headers['api-key']).toBe('azure-key');
+    expect(upstreamRequests[0].headers.authorization).toBeUndefined();
+    expect(received[0].messages[0].content).not.toContain('jane@example.com');
+    expect((await res.json()).choices[0].message.content).toBe('Email jane@example.com');
+  });
+
+  it('should require api-version', async () => {
+    const res = await azure('');
+    expect(res.status).toBe(400);
+    expect(received).toHaveLength(0);
+  });
+});
+
+// The data payloads of a server-sent event stream
+const sseData = (text: string) => text.split(/\r?\n\r?\n/)
+  .map(event => event.split(/\r?\n/).filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join(''))
+  .filter(data => data && data !== '[DONE]')
+  .map(data => JSON.parse(data));
+
+function sse(res: http.ServerResponse, events: unknown[]) {
+  res.setHeader('Content-Type', 'text/event-stream');
+  for (const event of events) res.write(`data: ${JSON.stringify(event)}\n\n`);
+  res.end();
+}
+
+describe('Gemini', () => {
+  beforeAll(() => {
+    (server as any).providers.set({ id: 'gemini', type: 'gemini', baseUrl: (server as any).providers.get('openai').baseUrl });
+  });
+
+  const candidate = (text: string) => ({ candidates: [{ content: { role: 'model', parts: [{ text }] } }] });
+  const gemini = (method: string) => post(`/v1beta/models/gemini-1.5-pro:${method}`, {
+    systemInstruction: { parts: [{ text: 'The user is tom@example.org' }] },
+    contents: [{ role: 'user', parts: [{ text: 'Email jane@example.com' }] }],
+  }, { 'x-goog-api-key': 'gemini-key' });
+  const prompt = () => received[0].contents[0].parts[0].text as string;
+
+  it('should redact contents and systemInstruction and hydrate candidates', async () => {
+    respond = (res, body) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(candidate(body.contents[0].parts[0].text)));
+    };
+    const res = await gemini('generateContent');
+    expect(upstreamRequests[0].url).toBe('/v1beta/models/gemini-1.5-pro:generateContent');
+    expect(upstreamRequests[0].headers['x-goog-api-key']).toBe('gemini-key');
+    expect(received[0].systemInstruction.parts[0].text).not.toContain('tom@example.org');
+    expect(prompt()).not.toContain('jane@example.com');
+    expect((await res.json()).candidates[0].content.parts[0].text).toBe('Email jane@example.com');
+  });
+
+  it('should hydrate a placeholder split across SSE chunks', async () => {
+    respond = (res, body) => {
+      const text = body.contents[0].parts[0].text;
+      sse(res, [candidate(text.slice(0, -3)), candidate(text.slice(-3))]);
+    };
+    const res = await gemini('streamGenerateContent?alt=sse');
+    const chunks = sseData(await res.text()).map(event => event.candidates[0].content.parts[0].text);
+    expect(chunks.join('')).toBe('Email jane@example.com');
+  });
+
+  it('should hydrate a streamed JSON array', async () => {
+    respond = (res, body) => {
+      const text = body.contents[0].parts[0].text;
+      res.setHeader('Content-Type', 'application/json');
+      res.write(`[${JSON.stringify(candidate(text.slice(0, -3)))}`);
+      res.end(`,\n${JSON.stringify(candidate(text.slice(-3)))}]`);
+    };
+    const res = await gemini('streamGenerateContent');
+    const chunks = (await res.json()).map((event: any) => event.candidates[0].content.parts[0].text);
+    expect(chunks.join('')).toBe('Email jane@example.com');
+  });
+});
+
+describe('OpenAI Responses API', () => {
+  const outputMessage = (text: string) => ({ type: 'message', role: 'assistant', content: [{ type: 'output_text', text }] });
+  const responses = (body: Record<string, unknown>) =>
+    post('/v1/responses', { model: 'gpt-4o', ...body }, { 'Authorization': 'Bearer sk-test' });
+
+  it('should redact instructions and input_text parts and hydrate output text', async () => {
+    respond = (res, body) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ id: 'resp_1', object: 'response', output: [outputMessage(body.input[0].content[0].text)] }));
+    };
+    const res = await responses({
+      instructions: 'The user is tom@example.org',
+      input: [{ role: 'user', content: [{ type: 'input_text', text: 'Email jane@example.com' }] }],
+    });
+    expect(upstreamRequests[0].url).toBe('/v1/responses');
+    expect(received[0].instructions).not.toContain('tom@example.org');
+    expect(received[0].input[0].content[0].text).not.toContain('jane@example.com');
+    expect((await res.json()).output[0].content[0].text).toBe('Email jane@example.com');
+  });
+
+  it('should hydrate output_text deltas with a placeholder split across events', async () => {
+    respond = (res, body) => sse(res, [
+      { type: 'response.output_text.delta', output_index: 0, content_index: 0, delta: body.input.slice(0, -3) },
+      { type: 'response.output_text.delta', output_index: 0, content_index: 0, delta: body.input.slice(-3) },
+      { type: 'response.completed', response: { id: 'resp_1', output: [outputMessage(body.input)] } },
+    ]);
+    const res = await responses({ input: 'Email jane@example.com', stream: true });
+    const events = sseData(await res.text());
+    const deltas = events.filter(e => e.type === 'response.output_text.delta').map(e => e.delta);
+    expect(deltas.join('')).toBe('Email jane@example.com');
+    expect(events.at(-1).response.output[0].content[0].text).toBe('Email jane@example.com');
+  });
+});
+
+describe('tool calls', () => {
+  beforeAll(() => {
+    (server as any).providers.set({ id: 'anthropic', type: 'anthropic', baseUrl: (server as any).providers.get('openai').baseUrl });
+  });
+
+  it('should redact tool arguments, results and definitions and hydrate returned arguments', async () => {
+    respond = (res, body) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ choices: [{ index: 0, message: { role: 'assistant', content: null, tool_calls: [
+        { id: 'call_2', type: 'function', function: { name: 'send_email', arguments: body.messages[1].tool_calls[0].function.arguments } },
+      ] } }] }));
+    };
+    const res = await post('/v1/chat/completions', {
+      model: 'gpt-4o',
+      messages: [
+        { role: 'user', content: 'Email Jane' },
+        { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'send_email', arguments: '{"to":"jane@example.com"}' } }] },
+        { role: 'tool', tool_call_id: 'call_1', content: 'Sent to jane@example.com' },
+      ],
+      tools: [{ type: 'function', function: { name: 'send_email', description: 'Copies go to tom@example.org', parameters: { type: 'object' } } }],
+    }, { 'Authorization': 'Bearer sk-test' });
+
+    const sent = received[0];
+    expect(JSON.parse(sent.messages[1].tool_calls[0].function.arguments).to).not.toBe('jane@example.com');
+    expect(sent.messages[2].content).not.toContain('jane@example.com');
+    expect(sent.tools[0].function.description).not.toContain('tom@example.org');
+
+    const args = (await res.json()).choices[0].message.tool_calls[0].function.arguments;
+    expect(JSON.parse(args)).toEqual({ to: 'jane@example.com' });
+  });
+
+  it('should hydrate streamed Anthropic input_json_delta fragments', async () => {
+    respond = (res, body) => {
+      const json = JSON.stringify({ to: body.messages[0].content.slice('Email '.length) });
+      const split = json.length - 5;
+      sse(res, [
+        { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'toolu_1', name: 'send_email', input: {} } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: json.slice(0, split) } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: json.slice(split) } },
+        { type: 'content_block_stop', index: 0 },
+        { type: 'message_stop' },
+      ]);
+    };
+    const res = await post('/v1/messages', {
+      model: 'claude-3-5-sonnet-latest', max_tokens: 100, stream: true,
+      messages: [{ role: 'user', content: 'Email jane@example.com' }],
+    }, { 'x-api-key': 'sk-ant' });
+
+    const json = sseData(await res.text())
+      .filter(e => e.delta?.type === 'input_json_delta')
+      .map(e => e.delta.partial_json)
+      .join('');
+    expect(JSON.parse(json)).toEqual({ to: 'jane@example.com' });
+  });
+});
+
+describe('Anthropic system blocks and documents', () => {
+  beforeAll(() => {
+    (server as any).providers.set({ id: 'anthropic', type: 'anthropic', baseUrl: (server as any).providers.get('openai').baseUrl });
+  });
+
+  it('should redact system text blocks and document sources and keep block metadata', async () => {
+    respond = (res, body) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ id: 'msg_1', type: 'message', role: 'assistant', content: [{ type: 'text', text: body.system[0].text }] }));
+    };
+    const res = await post('/v1/messages', {
+      model: 'claude-3-5-sonnet-latest', max_tokens: 100,
+      system: [{ type: 'text', text: 'The user is jane@example.com', cache_control: { type: 'ephemeral' } }],
+      messages: [{ role: 'user', content: [
+        { type: 'document', title: 'Note for tom@example.org', source: { type: 'text', media_type: 'text/plain', data: 'Call tom@example.org' }, citations: { enabled: true } },
+        { type: 'text', text: 'Summarize' },
+      ] }],
+    }, { 'x-api-key': 'sk-ant' });
+
+    const [system, document] = [received[0].system[0], received[0].messages[0].content[0]];
+    expect(system.text).not.toContain('jane@example.com');
+    expect(system.cache_control).toEqual({ type: 'ephemeral' });
+    expect(document.title).not.toContain('tom@example.org');
+    expect(document.source.data).not.toContain('tom@example.org');
+    expect(document.source.media_type).toBe('text/plain');
+    expect(document.citations).toEqual({ enabled: true });
+    expect((await res.json()).content[0].text).toBe('The user is jane@example.com');
+  });
+});
+
+describe('Anthropic auth and version headers', () => {
+  beforeAll(() => {
+    (server as any).providers.set({ id: 'anthropic', type: 'anthropic', baseUrl: (server as any).providers.get('openai').baseUrl });
+  });
+
+  const messages = (headers: Record<string, string>) => post('/v1/messages',
+    { model: 'claude-3-5-sonnet-latest', max_tokens: 100, messages: [{ role: 'user', content: 'Hello' }] }, headers);
+
+  it('should forward x-api-key and the client version and beta headers', async () => {
+    const res = await messages({ 'x-api-key': 'sk-ant', 'anthropic-version': '2024-10-22', 'anthropic-beta': 'prompt-caching-2024-07-31' });
+    expect(res.status).toBe(200);
+    const { headers } = upstreamRequests[0];
+    expect(headers['x-api-key']).toBe('sk-ant');
+    expect(headers.authorization).toBeUndefined();
+    expect(headers['anthropic-version']).toBe('2024-10-22');
+    expect(headers['anthropic-beta']).toBe('prompt-caching-2024-07-31');
+  });
+
+  it('should forward a Bearer token with the default version', async () => {
+    await messages({ 'Authorization': 'Bearer sk-ant' });
+    const { headers } = upstreamRequests[0];
+    expect(headers.authorization).toBe('Bearer sk-ant');
+    expect(headers['x-api-key']).toBeUndefined();
+    expect(headers['anthropic-version']).toBe('2023-06-01');
+    expect(headers['anthropic-beta']).toBeUndefined();
+  });
+
+  it('should refuse a request without a key', async () => {
+    expect((await messages({})).status).toBe(401);
+    expect(upstreamRequests).toHaveLength(0);
+  });
+});
+
+describe('audit mode', () => {
+  afterEach(() => {
+    setSetting(getDatabase(), 'auditMode', false);
+  });
+
+  it('should forward the original body and record detections without storing them', async () => {
+    const session = '3e9a7c51-2b4d-4f6e-8a1c-5d7b9e0f2a43';
+    const { requestsAudited, piiDetected } = (server as any).stats;
+    const res = await chat('Email jane@example.com', { 'x-anonamoose-audit': 'true', 'x-anonamoose-session': session });
+    expect(res.status).toBe(200);
+    expect(received[0].messages[0].content).toBe('Email jane@example.com');
+    expect((server as any).stats.requestsAudited).toBe(requestsAudited + 1);
+    expect((server as any).stats.piiDetected).toBe(piiDetected + 1);
+    expect((server as any).redactionLog.at(-1)).toMatchObject({ sessionId: session, audit: true });
+    expect(await (server as any).rehydrationStore.retrieve(session)).toBeNull();
+  });
+
+  it('should follow the auditMode setting unless the header turns it off', async () => {
+    setSetting(getDatabase(), 'auditMode', true);
+    await chat('Email jane@example.com');
+    await chat('Email jane@example.com', { 'x-anonamoose-audit': 'false' });
+    expect(received[0].messages[0].content).toBe('Email jane@example.com');
+    expect(received[1].messages[0].content).not.toContain('jane@example.com');
+  });
+});
+
+describe('session and summary headers', () => {
+  const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+  it('should return a generated session and summarize the detections', async () => {
+    const res = await chat('Email jane@example.com or tom@example.org');
+    expect(res.headers.get('x-anonamoose-session')).toMatch(UUID);
+    expect(res.headers.get('x-anonamoose-detections')).toBe('2');
+    expect(res.headers.get('x-anonamoose-categories')).toBe('EMAIL');
+    expect(res.headers.get('x-anonamoose-layers')).toBe('regex');
+  });
+
+  it('should return the client session and report no detections', async () => {
+    const session = 'c2f8a0d4-6b1e-4c9a-9f3d-7e5a1b2c8d60';
+    const res = await chat('Hello', { 'x-anonamoose-session': session });
+    expect(res.headers.get('x-anonamoose-session')).toBe(session);
+    expect(res.headers.get('x-anonamoose-detections')).toBe('0');
+    expect(res.headers.get('x-anonamoose-categories')).toBeNull();
+  });
+
+  it('should set the headers on streaming responses', async () => {
+    respond = (res, body) => sse(res, [
+      { object: 'chat.completion.chunk', choices: [{ index: 0, delta: { content: body.messages[0].content } }] },
+    ]);
+    const res = await post('/v1/chat/completions',
+      { model: 'gpt-4o', stream: true, messages: [{ role: 'user', content: 'Email jane@example.com' }] },
+      { 'Authorization': 'Bearer sk-test' });
+    expect(res.headers.get('content-type')).toContain('text/event-stream');
+    expect(res.headers.get('x-anonamoose-session')).toMatch(UUID);
+    expect(res.headers.get('x-anonamoose-detections')).toBe('1');
+    expect(sseData(await res.text())[0].choices[0].delta.content).toBe('Email jane@example.com');
+  });
+});
+
+describe('session placeholders', () => {
+  const session = 'f4a1c7e2-8d3b-4e5f-a6c9-0b2d4e6f8a13';
+
+  it('should give a repeated value one placeholder within a request and across turns', async () => {
+    await post('/v1/chat/completions', { model: 'gpt-4o', messages: [
+      { role: 'user', content: 'Email jane@example.com' },
+      { role: 'assistant', content: 'Sure' },
+      { role: 'user', content: 'Also CC jane@example.com and tom@example.org' },
+    ] }, { 'Authorization': 'Bearer sk-test', 'x-anonamoose-session': session });
+    const placeholder = received[0].messages[0].content.slice('Email '.length);
+    const other = received[0].messages[2].content.split(' and ')[1];
+    expect(received[0].messages[2].content).toBe(`Also CC ${placeholder} and ${other}`);
+    expect(other).not.toBe(placeholder);
+
+    reply = `Sent to ${placeholder}`;
+    const res = await chat('Write to jane@example.com', { 'x-anonamoose-session': session });
+    expect(received[1].messages[0].content).toBe(`Write to ${placeholder}`);
+    expect((await res.json()).choices[0].message.content).toBe('Sent to jane@example.com');
+  });
+
+  it('should not reuse placeholders from another session', async () => {
+    await chat('Email jane@example.com', { 'x-anonamoose-session': session });
+    await chat('Email jane@example.com', { 'x-anonamoose-session': '9b8a7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d' });
+    expect(received[0].messages[0].content).not.toBe(received[1].messages[0].content);
+  });
+});
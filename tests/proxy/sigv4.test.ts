@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { signRequest, getAwsCredentialsFromEnv } from '../../src/proxy/sigv4.js';
+
+// From the AWS Signature Version 4 test suite
+const credentials = { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' };
+const date = new Date('2015-08-30T12:36:00Z');
+
+describe('signRequest', () => {
+  it('should match the get-vanilla test vector', () => {
+    const headers = signRequest({
+      method: 'GET',
+      url: 'https://example.amazonaws.com/',
+      headers: {},
+      body: '',
+      region: 'us-east-1',
+      service: 'service',
+      credentials,
+      date,
+    });
+    expect(headers['X-Amz-Date']).toBe('20150830T123600Z');
+    expect(headers['Authorization']).toBe(
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+      'SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+    );
+  });
+
+  it('should sign the given headers and the session token', () => {
+    const headers = signRequest({
+      method: 'POST',
+      url: 'https://bedrock-runtime.us-east-1.amazonaws.com/model/anthropic.claude-3-haiku-20240307-v1%3A0/converse',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+      region: 'us-east-1',
+      service: 'bedrock',
+      credentials: { ...credentials, sessionToken: 'session' },
+      date,
+    });
+    expect(headers['X-Amz-Security-Token']).toBe('session');
+    expect(headers['Authorization']).toContain('SignedHeaders=content-type;host;x-amz-date;x-amz-security-token,');
+    expect(headers['Content-Type']).toBe('application/json');
+  });
+
+  it('should produce different signatures for different bodies', () => {
+    const sign = (body: string) => signRequest({
+      method: 'POST', url: 'https://example.amazonaws.com/', headers: {}, body,
+      region: 'us-east-1', service: 'bedrock', credentials, date,
+    })['Authorization'];
+    expect(sign('{"a":1}')).not.toBe(sign('{"a":2}'));
+  });
+});
+
+describe('getAwsCredentialsFromEnv', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('should return null without credentials', () => {
+    delete process.env.AWS_ACCESS_KEY_ID;
+    delete process.env.AWS_SECRET_ACCESS_KEY;
+    expect(getAwsCredentialsFromEnv()).toBeNull();
+  });
+
+  it('should read keys and an optional session token', () => {
+    process.env.AWS_ACCESS_KEY_ID = 'AKID';
+    process.env.AWS_SECRET_ACCESS_KEY = 'secret';
+    process.env.AWS_SESSION_TOKEN = 'token';
+    expect(getAwsCredentialsFromEnv()).toEqual({ accessKeyId: 'AKID', secretAccessKey: 'secret', sessionToken: 'token' });
+  });
+});
@@ -0,0 +1,188 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker, fetchUpstream, orderTargets, parseRetryAfter } from '../../src/proxy/upstream.js';
+import { ProxyError, CircuitOpenError } from '../../src/proxy/errors.js';
+
+const OPTIONS = { timeoutMs: 1000, maxRetries: 2, backoffMs: 1 };
+
+function mockFetch(...responses: Array<Response | Error>) {
+  const fn = vi.fn();
+  for (const r of responses) {
+    if (r instanceof Error) fn.mockRejectedValueOnce(r);
+    else fn.mockResolvedValueOnce(r);
+  }
+  vi.stubGlobal('fetch', fn);
+  return fn;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('should parse an HTTP date', () => {
+    const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:03 GMT', now)).toBe(3000);
+  });
+
+  it('should return null for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('should open after the failure threshold', () => {
+    const breaker = new CircuitBreaker(2, 1000, () => 0);
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should allow a single trial request after the cooldown', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(1, 1000, () => now);
+    breaker.recordFailure();
+    now = 1000;
+    expect(breaker.state).toBe('half-open');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  it('should close after a successful trial and re-open after a failed one', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker(3, 1000, () => now);
+    for (let i = 0; i < 3; i++) breaker.recordFailure();
+    now = 1000;
+    breaker.allowRequest();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+
+    now = 2000;
+    breaker.allowRequest();
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should reset the failure count on success', () => {
+    const breaker = new CircuitBreaker(2, 1000, () => 0);
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+    expect(breaker.state).toBe('closed');
+  });
+});
+
+describe('fetchUpstream', () => {
+  it('should return the first successful response', async () => {
+    const fetch = mockFetch(new Response('ok'));
+    const res = await fetchUpstream('http://upstream', {}, OPTIONS);
+    expect(await res.text()).toBe('ok');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry on 5xx and 429', async () => {
+    const fetch = mockFetch(new Response('', { status: 503 }), new Response('', { status: 429 }), new Response('ok'));
+    const res = await fetchUpstream('http://upstream', {}, OPTIONS);
+    expect(res.status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should return the last retryable response when retries run out', async () => {
+    mockFetch(new Response('', { status: 500 }), new Response('', { status: 500 }), new Response('busy', { status: 502 }));
+    const res = await fetchUpstream('http://upstream', {}, OPTIONS);
+    expect(res.status).toBe(502);
+  });
+
+  it('should not retry client errors', async () => {
+    const fetch = mockFetch(new Response('', { status: 400 }));
+    const res = await fetchUpstream('http://upstream', {}, OPTIONS);
+    expect(res.status).toBe(400);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not wait out a retry-after beyond the limit', async () => {
+    const fetch = mockFetch(new Response('', { status: 429, headers: { 'retry-after': '3600' } }));
+    const res = await fetchUpstream('http://upstream', {}, OPTIONS);
+    expect(res.status).toBe(429);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry network errors and surface a 502 when they persist', async () => {
+    const fetch = mockFetch(new TypeError('fetch failed'), new TypeError('fetch failed'), new TypeError('fetch failed'));
+    const err = await fetchUpstream('http://upstream', {}, OPTIONS).catch(e => e);
+    expect(err).toBeInstanceOf(ProxyError);
+    expect(err.status).toBe(502);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should time out slow attempts with a 504', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    })));
+    const err = await fetchUpstream('http://upstream', {}, { ...OPTIONS, timeoutMs: 10, maxRetries: 0 }).catch(e => e);
+    expect(err).toBeInstanceOf(ProxyError);
+    expect(err.status).toBe(504);
+  });
+
+  it('should fail fast while the circuit breaker is open', async () => {
+    const fetch = mockFetch();
+    const breaker = new CircuitBreaker(1, 60_000);
+    breaker.recordFailure();
+    const err = await fetchUpstream('http://upstream', {}, { ...OPTIONS, breaker }).catch(e => e);
+    expect(err).toBeInstanceOf(CircuitOpenError);
+    expect(err.status).toBe(503);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('should record upstream failures on the breaker', async () => {
+    mockFetch(new Response('', { status: 500 }));
+    const breaker = new CircuitBreaker(1, 60_000);
+    await fetchUpstream('http://upstream', {}, { ...OPTIONS, maxRetries: 0, breaker });
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should abort the upstream request when the client disconnects', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+    })));
+    const client = new AbortController();
+    const breaker = new CircuitBreaker(1, 60_000);
+    const pending = fetchUpstream('http://upstream', {}, { ...OPTIONS, breaker, signal: client.signal });
+    client.abort();
+    const err = await pending.catch(e => e);
+    expect(err).not.toBeInstanceOf(ProxyError);
+    expect(breaker.state).toBe('closed');
+  });
+});
+
+describe('orderTargets', () => {
+  const targets = [
+    { id: 'a', weight: 1, priority: 0 },
+    { id: 'b', weight: 3, priority: 0 },
+    { id: 'backup', weight: 1, priority: 1 },
+  ];
+
+  it('should try higher priority values last', () => {
+    for (const r of [0, 0.5, 0.99]) {
+      expect(orderTargets(targets, () => r).map(t => t.id).at(-1)).toBe('backup');
+    }
+  });
+
+  it('should pick within a group by weight', () => {
+    // Total weight 4: a covers [0, 1), b covers [1, 4)
+    expect(orderTargets(targets, () => 0.2)[0].id).toBe('a');
+    expect(orderTargets(targets, () => 0.3)[0].id).toBe('b');
+  });
+
+  it('should include every target once', () => {
+    expect(orderTargets(targets).map(t => t.id).sort()).toEqual(['a', 'b', 'backup']);
+  });
+});
+
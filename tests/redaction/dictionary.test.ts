@@ -93,6 +93,18 @@ describe('Dictionary Service', () => {
     expect(result.text).toContain(token);
   });
 
+  it('should return the replacement for entries that have one', async () => {
+    const dict = new DictionaryService();
+    dict.setTokenizer(() => '\uE000DICT_0\uE001');
+    await dict.add([{
+      id: 'rep-1', term: 'Project Falcon', replacement: 'Project X', reversible: false,
+      caseSensitive: false, wholeWord: true, enabled: true, createdAt: new Date(),
+    }]);
+    const result = await dict.redact('Status of project falcon?', 'sess-1');
+    expect(result.text).toBe('Status of \uE000DICT_0\uE001?');
+    expect(result.replacements.get('\uE000DICT_0\uE001')).toEqual({ text: 'Project X', reversible: false });
+  });
+
   it('should return unmodified text when dictionary is empty', async () => {
     const dict = new DictionaryService();
     const result = await dict.redact('Nothing to redact here', 'sess-1');
@@ -234,6 +246,33 @@ describe('Dictionary Service', () => {
       db.close();
     });
 
+    it('should persist replacement and reversible', async () => {
+      const db = makeDb();
+      await new DictionaryService(db).add([{
+        id: 'rep-1', term: 'Project Falcon', replacement: 'Project X', reversible: false,
+        caseSensitive: false, wholeWord: false, enabled: true, createdAt: new Date(),
+      }]);
+
+      const [entry] = new DictionaryService(db).list();
+      expect(entry.replacement).toBe('Project X');
+      expect(entry.reversible).toBe(false);
+      db.close();
+    });
+
+    it('should add the reversible column to an existing dictionary table', () => {
+      const db = new Database(':memory:');
+      db.exec(`CREATE TABLE dictionary (
+        id TEXT PRIMARY KEY, term TEXT NOT NULL, replacement TEXT, case_sensitive INTEGER NOT NULL DEFAULT 0,
+        whole_word INTEGER NOT NULL DEFAULT 0, enabled INTEGER NOT NULL DEFAULT 1, created_at TEXT NOT NULL
+      )`);
+      db.prepare('INSERT INTO dictionary (id, term, replacement, created_at) VALUES (?, ?, ?, ?)')
+        .run('old-1', 'Project Falcon', 'Project X', new Date().toISOString());
+      initializeSchema(db);
+
+      expect(new DictionaryService(db).list()[0].reversible).toBe(true);
+      db.close();
+    });
+
     it('should not load disabled entries from SQLite', async () => {
       const db = makeDb();
       db.prepare(
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { EgressScanner } from '../../src/core/redaction/egress.js';
+import { RedactionPipeline } from '../../src/core/redaction/pipeline.js';
+import { DictionaryService } from '../../src/core/redaction/dictionary.js';
+import type { PIIDetection, RedactionConfig } from '../../src/core/types.js';
+
+const CONFIG: RedactionConfig = {
+  enableDictionary: true,
+  enableRegex: true,
+  enableNames: false,
+  enableNER: false,
+  nerModel: 'Xenova/bert-base-NER',
+  nerMinConfidence: 0.6,
+  tokenizePlaceholders: true,
+  placeholderPrefix: '',
+  placeholderSuffix: '',
+};
+
+const pipeline = new RedactionPipeline(new DictionaryService(), () => CONFIG);
+const detect = (text: string) => pipeline.scan(text);
+
+describe('EgressScanner', () => {
+  it('should ignore values that were in the session', () => {
+    const scanner = new EgressScanner(detect, ['Sarah.J@company.co.nz'], 'mask');
+    expect(scanner.process('Reply to sarah.j@company.co.nz')).toBe('Reply to sarah.j@company.co.nz');
+  });
+
+  it('should mask new values with their category', () => {
+    const scanner = new EgressScanner(detect, ['sarah.j@company.co.nz'], 'mask');
+    expect(scanner.process('CC sarah.j@company.co.nz and tom@example.org'))
+      .toBe('CC sarah.j@company.co.nz and [EMAIL]');
+  });
+
+  it('should annotate new values', () => {
+    const scanner = new EgressScanner(detect, [], 'annotate');
+    expect(scanner.process('Server is 10.0.0.42.')).toBe('Server is 10.0.0.42 [unverified IP_ADDRESS].');
+  });
+
+  it('should report findings without changing the text in count mode', () => {
+    const found: PIIDetection[] = [];
+    const scanner = new EgressScanner(detect, [], 'count', findings => found.push(...findings));
+    expect(scanner.process('Email tom@example.org')).toBe('Email tom@example.org');
+    expect(found.map(f => f.value)).toEqual(['tom@example.org']);
+  });
+
+  it('should catch a value split across stream deltas', () => {
+    const scanner = new EgressScanner(detect, [], 'mask');
+    const stream = scanner.stream();
+    const filler = 'x'.repeat(120);
+    let out = stream.push(`${filler} write to tom@exa`);
+    out += stream.push('mple.org today');
+    expect(stream.hasPending()).toBe(true);
+    out += stream.flush();
+    expect(out).toBe(`${filler} write to [EMAIL] today`);
+  });
+
+  it('should release text well before the end of the stream', () => {
+    const stream = new EgressScanner(detect, [], 'mask').stream();
+    const out = stream.push('a'.repeat(150));
+    expect(out.length).toBe(50);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FF3Cipher, parseFpeKey, encryptPreservingFormat, decryptPreservingFormat,
+} from '../../src/core/redaction/fpe.js';
+
+const key = parseFpeKey('2DE79D232DF5585D68CE47882AE256D6')!;
+
+describe('FF3Cipher', () => {
+  it('should match the FF3-1 reference vector', () => {
+    const cipher = new FF3Cipher(key, Buffer.from('CBD09280979564', 'hex'), '0123456789');
+    expect(cipher.encrypt('3992520240')).toBe('8901801106');
+    expect(cipher.decrypt('8901801106')).toBe('3992520240');
+  });
+
+  it('should round-trip with AES-256 and radix 26', () => {
+    const cipher = new FF3Cipher(Buffer.alloc(32, 1), Buffer.alloc(7, 2), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ');
+    const ciphertext = cipher.encrypt('WESTPAC');
+    expect(ciphertext).toMatch(/^[A-Z]{7}$/);
+    expect(cipher.decrypt(ciphertext)).toBe('WESTPAC');
+  });
+
+  it('should reject inputs outside the FF3-1 length limits', () => {
+    const cipher = new FF3Cipher(key, Buffer.alloc(7), '0123456789');
+    expect(() => cipher.encrypt('12345')).toThrow();
+    expect(() => cipher.encrypt('1'.repeat(57))).toThrow();
+  });
+});
+
+describe('encryptPreservingFormat', () => {
+  it('should keep length, separators and character classes', () => {
+    const iban = 'GB82 WEST 1234 5698 7654 32';
+    const ciphertext = encryptPreservingFormat(iban, key, 'IBAN');
+    expect(ciphertext).not.toBe(iban);
+    expect(ciphertext.replace(/\d/g, '0').replace(/[A-Z]/g, 'A')).toBe('AA00 AAAA 0000 0000 0000 00');
+    expect(decryptPreservingFormat(ciphertext, key, 'IBAN')).toBe(iban);
+  });
+
+  it('should be deterministic per category', () => {
+    const ssn = '123-45-6789';
+    expect(encryptPreservingFormat(ssn, key, 'SSN_US')).toBe(encryptPreservingFormat(ssn, key, 'ssn_us'));
+    expect(encryptPreservingFormat(ssn, key, 'SSN_US')).not.toBe(encryptPreservingFormat(ssn, key, 'AU_TFN'));
+  });
+
+  it('should leave character classes below the minimum length unchanged', () => {
+    const ciphertext = encryptPreservingFormat('PA1234567', key, 'AU_PASSPORT');
+    expect(ciphertext.slice(0, 2)).toBe('PA');
+    expect(decryptPreservingFormat(ciphertext, key, 'AU_PASSPORT')).toBe('PA1234567');
+  });
+});
+
+describe('parseFpeKey', () => {
+  it('should accept AES key lengths and reject anything else', () => {
+    expect(parseFpeKey(undefined)).toBeNull();
+    expect(parseFpeKey('ab'.repeat(32))).toHaveLength(32);
+    expect(() => parseFpeKey('ab'.repeat(20))).toThrow('FPE_KEY');
+  });
+});
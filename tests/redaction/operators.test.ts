@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { applyIrreversibleOperator, resolveOperator } from '../../src/core/redaction/operators.js';
+
+describe('resolveOperator', () => {
+  it('should prefer an exact category over globs', () => {
+    const operators = { 'DATE_OF_BIRTH_*': 'truncate', DATE_OF_BIRTH_UK: 'drop', '*': 'hash' } as const;
+    expect(resolveOperator('DATE_OF_BIRTH_UK', operators)).toBe('drop');
+    expect(resolveOperator('date_of_birth_au', operators)).toBe('truncate');
+    expect(resolveOperator('EMAIL', operators)).toBe('hash');
+  });
+
+  it('should default to redact', () => {
+    expect(resolveOperator('EMAIL', { 'PHONE_?': 'mask' })).toBe('redact');
+  });
+});
+
+describe('applyIrreversibleOperator', () => {
+  it('should mask all but the last 4 letters and digits', () => {
+    expect(applyIrreversibleOperator('mask', '4532-0151-1283-0366', null)).toBe('****-****-****-0366');
+  });
+
+  it('should hash deterministically, keyed when a key is given', () => {
+    const plain = applyIrreversibleOperator('hash', '10.0.0.42', null);
+    expect(plain).toMatch(/^[0-9a-f]{16}$/);
+    expect(applyIrreversibleOperator('hash', '10.0.0.42', null)).toBe(plain);
+    expect(applyIrreversibleOperator('hash', '10.0.0.42', 'secret')).not.toBe(plain);
+  });
+
+  it('should truncate dates to the year and IPv4 addresses to the network', () => {
+    expect(applyIrreversibleOperator('truncate', '03/04/1985', null)).toBe('1985');
+    expect(applyIrreversibleOperator('truncate', '192.168.1.42', null)).toBe('192.168.1.0');
+    expect(applyIrreversibleOperator('truncate', 'Sarah', null)).toBeNull();
+  });
+
+  it('should drop the value and leave reversible operators to the tokenizer', () => {
+    expect(applyIrreversibleOperator('drop', 'Sarah', null)).toBe('');
+    expect(applyIrreversibleOperator('keep-domain', 'amy@corp.com', null)).toBeNull();
+  });
+});
@@ -114,6 +114,116 @@ describe('Redaction Pipeline', () => {
     });
   });
 
+  describe('Overrides', () => {
+    it('should leave excluded categories unredacted', async () => {
+      const pipeline = await createPipeline({ enableDictionary: false, enableRegex: true, enableNames: false, enableNER: false });
+      const result = await pipeline.redact('Mail sarah.j@company.co.nz from 10.0.0.42', 'sess-ov-1', {
+        excludeCategories: ['ip_address'],
+      });
+      expect(result.redactedText).toContain('10.0.0.42');
+      expect(result.redactedText).not.toContain('sarah.j@company.co.nz');
+      expect(result.detectedPII.map(d => d.category)).toEqual(['EMAIL']);
+      expect([...result.tokens.values()]).toEqual(['sarah.j@company.co.nz']);
+    });
+
+    it('should leave detections below minConfidence unredacted', async () => {
+      const pipeline = await createPipeline({ enableDictionary: false, enableRegex: true, enableNames: false, enableNER: false });
+      // EMAIL is 0.95, IP_ADDRESS 0.90
+      const result = await pipeline.redact('Mail sarah.j@company.co.nz from 10.0.0.42', 'sess-ov-2', { minConfidence: 0.92 });
+      expect(result.redactedText).toContain('10.0.0.42');
+      expect(result.redactedText).not.toContain('sarah.j@company.co.nz');
+    });
+
+    it('should always apply dictionary matches', async () => {
+      const pipeline = await createPipeline({ enableDictionary: true, enableRegex: false, enableNER: false }, ['Project Falcon']);
+      const result = await pipeline.redact('About Project Falcon', 'sess-ov-3', {
+        minConfidence: 1,
+        excludeCategories: ['CUSTOM_DICTIONARY'],
+      });
+      expect(result.redactedText).not.toContain('Project Falcon');
+    });
+  });
+
+  describe('Placeholder styles', () => {
+    it('should use typed placeholders with the configured prefix and suffix', async () => {
+      const pipeline = await createPipeline({
+        enableNames: false, enableNER: false, placeholderStyle: 'typed', placeholderPrefix: '{{', placeholderSuffix: '}}',
+      });
+      const result = await pipeline.redact('Mail sarah.j@company.co.nz or tom@example.org', 'sess-ps-1');
+      expect(result.redactedText).toBe('Mail {{EMAIL_1}} or {{EMAIL_2}}');
+      expect(result.tokens.get('{{EMAIL_1}}')).toBe('sarah.j@company.co.nz');
+    });
+
+    it('should keep a value\'s placeholder from earlier in the session', async () => {
+      const pipeline = await createPipeline({ enableNames: false, enableNER: false });
+      const first = await pipeline.redact('Mail sarah.j@company.co.nz', 'sess-ps-2');
+      const second = await pipeline.redact('Again: sarah.j@company.co.nz', 'sess-ps-2', undefined, first.tokens);
+      expect(second.redactedText).toBe(`Again: ${[...first.tokens.keys()][0]}`);
+    });
+
+    it('should replace values with surrogates and fall back to typed placeholders', async () => {
+      const pipeline = await createPipeline({
+        enableNames: false, enableNER: false, placeholderStyle: 'surrogate', placeholderPrefix: '[', placeholderSuffix: ']',
+      }, ['Project Falcon']);
+      const result = await pipeline.redact('Project Falcon lead: sarah.j@company.co.nz', 'sess-ps-3');
+      const [[dictPlaceholder], [surrogate, original]] = [...result.tokens];
+      expect(dictPlaceholder).toBe('[CUSTOM_DICTIONARY_1]');
+      expect(surrogate).toMatch(/@example\.(com|net|org)$/);
+      expect(original).toBe('sarah.j@company.co.nz');
+      expect(result.redactedText).toBe(`[CUSTOM_DICTIONARY_1] lead: ${surrogate}`);
+    });
+  });
+
+  describe('Dictionary replacements', () => {
+    const createReplacementPipeline = async (reversible: boolean) => {
+      const dictionary = new DictionaryService();
+      await dictionary.add([{
+        id: 'rep-1', term: 'Project Falcon', replacement: 'Project X', reversible,
+        caseSensitive: false, wholeWord: true, enabled: true, createdAt: new Date(),
+      }]);
+      return new RedactionPipeline(dictionary, () => ({ ...DEFAULT_CONFIG, enableNames: false, enableNER: false }));
+    };
+
+    it('should substitute the replacement and map it back when reversible', async () => {
+      const pipeline = await createReplacementPipeline(true);
+      const result = await pipeline.redact('Project Falcon ships in May', 'sess-rep-1');
+      expect(result.redactedText).toBe('Project X ships in May');
+      expect(result.tokens.get('Project X')).toBe('Project Falcon');
+    });
+
+    it('should not let regex patterns match inside earlier layers\' tokens', async () => {
+      const pipeline = await createReplacementPipeline(true);
+      pipeline.getDictionary().setTokenizer(() => '\uE0000213208421abcd\uE001');
+      const result = await pipeline.redact('Project Falcon ships in May', 'sess-rep-3');
+      expect(result.redactedText).toBe('Project X ships in May');
+      expect(result.detectedPII.map(d => d.category)).toEqual(['CUSTOM_DICTIONARY']);
+    });
+
+    it('should not return a token for an irreversible replacement', async () => {
+      const pipeline = await createReplacementPipeline(false);
+      const result = await pipeline.redact('Project Falcon ships in May', 'sess-rep-2');
+      expect(result.redactedText).toBe('Project X ships in May');
+      expect(result.tokens.size).toBe(0);
+      expect(result.detectedPII).toHaveLength(1);
+    });
+  });
+
+  describe('Scan', () => {
+    it('should find dictionary and regex values without redacting them', async () => {
+      const pipeline = await createPipeline({ enableNames: false, enableNER: false }, ['Project Falcon']);
+      const text = 'Project Falcon lead: sarah.j@company.co.nz';
+      const detections = pipeline.scan(text);
+      expect(detections.map(d => d.category)).toEqual(['CUSTOM_DICTIONARY', 'EMAIL']);
+      expect(text.slice(detections[1].startIndex, detections[1].endIndex)).toBe('sarah.j@company.co.nz');
+    });
+
+    it('should apply overrides', async () => {
+      const pipeline = await createPipeline({ enableNames: false, enableNER: false });
+      const detections = pipeline.scan('Mail sarah.j@company.co.nz from 10.0.0.42', { excludeCategories: ['EMAIL'] });
+      expect(detections.map(d => d.category)).toEqual(['IP_ADDRESS']);
+    });
+  });
+
   // NER integration tests require the transformer model to be cached locally.
   // They are skipped in CI where the model is not available.
   const describeNER = process.env.CI ? describe.skip : describe;
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { generateSurrogate } from '../../src/core/redaction/surrogates.js';
+import { DEFAULT_PATTERNS } from '../../src/core/redaction/regex-layer.js';
+
+const findPattern = (name: string) => DEFAULT_PATTERNS.find(p => p.name === name)!;
+
+const luhn = (num: string): boolean => {
+  const digits = num.replace(/\D/g, '').split('').reverse().map(Number);
+  const sum = digits.reduce((acc, d, i) => acc + (i % 2 ? (d * 2 > 9 ? d * 2 - 9 : d * 2) : d), 0);
+  return sum % 10 === 0;
+};
+
+describe('generateSurrogate', () => {
+  it('should generate Luhn-valid test card numbers in the same format', () => {
+    const surrogate = generateSurrogate('CREDIT_CARD', '4532 0151 1283 0366')!;
+    expect(surrogate).toMatch(/^4111 11\d\d \d{4} \d{4}$/);
+    expect(luhn(surrogate)).toBe(true);
+    expect(surrogate).not.toBe('4532 0151 1283 0366');
+  });
+
+  it('should generate national identifiers that pass the validators', () => {
+    for (const [category, original] of [['AU_TFN', '123 456 708'], ['NZ_IRD', '04-9091-850'], ['UK_NHS', '943 476 5919']]) {
+      const pattern = findPattern(category);
+      const surrogate = generateSurrogate(category, original)!;
+      expect(surrogate, category).not.toBe(original);
+      expect(pattern.validator!(surrogate), `${category}: ${surrogate}`).toBe(true);
+      expect(surrogate.replace(/\d/g, '0')).toBe(original.replace(/\d/g, '0'));
+    }
+  });
+
+  it('should use reserved domains and ranges', () => {
+    expect(generateSurrogate('EMAIL', 'sarah.j@company.co.nz')).toMatch(/^[a-z]+\.[a-z]+\d*@example\.(com|net|org)$/);
+    expect(generateSurrogate('IP_ADDRESS', '10.0.0.42')).toMatch(/^(192\.0\.2|198\.51\.100|203\.0\.113)\.\d+$/);
+  });
+
+  it('should keep the number of words in a name', () => {
+    expect(generateSurrogate('PERSON', 'Sarah Jane Smith')!.split(' ')).toHaveLength(3);
+    expect(generateSurrogate('PERSON', 'Sarah')!.split(' ')).toHaveLength(1);
+  });
+
+  it('should return null for categories without a surrogate', () => {
+    expect(generateSurrogate('CUSTOM_DICTIONARY', 'Project Falcon')).toBeNull();
+  });
+});
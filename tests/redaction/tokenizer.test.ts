@@ -1,5 +1,10 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { Tokenizer } from '../../src/core/redaction/tokenizer.js';
+import { generateSurrogate } from '../../src/core/redaction/surrogates.js';
+import { encryptPreservingFormat } from '../../src/core/redaction/fpe.js';
+import type { PIIDetection } from '../../src/core/types.js';
+
+vi.mock('../../src/core/redaction/surrogates.js', () => ({ generateSurrogate: vi.fn() }));
 
 describe('Tokenizer', () => {
   it('should generate unique placeholders', () => {
@@ -74,3 +79,98 @@ describe('Tokenizer', () => {
     expect(result.split('\uE000token1\uE001').length - 1).toBe(2);
   });
 });
+
+describe('Tokenizer.assignPlaceholders', () => {
+  const detection = (category: string, value: string): PIIDetection => ({
+    type: 'regex', category, value, startIndex: 0, endIndex: value.length, confidence: 1,
+  });
+  const typed = { style: 'typed' as const, prefix: '[', suffix: ']' };
+
+  it('should number typed placeholders per category', () => {
+    const tokenizer = new Tokenizer();
+    const a = tokenizer.generatePlaceholder();
+    const b = tokenizer.generatePlaceholder();
+    const c = tokenizer.generatePlaceholder();
+    const result = tokenizer.assignPlaceholders(
+      `${a} and ${b} at ${c}`,
+      new Map([[a, 'bob@example.com'], [b, 'amy@example.com'], [c, '10.0.0.1']]),
+      [detection('EMAIL', 'bob@example.com'), detection('EMAIL', 'amy@example.com'), detection('IP_ADDRESS', '10.0.0.1')],
+      new Map(),
+      typed
+    );
+    expect(result.text).toBe('[EMAIL_1] and [EMAIL_2] at [IP_ADDRESS_1]');
+    expect(result.tokens.get('[EMAIL_2]')).toBe('amy@example.com');
+  });
+
+  it('should reuse the session placeholder for a known value and continue the counter', () => {
+    const tokenizer = new Tokenizer();
+    const a = tokenizer.generatePlaceholder();
+    const b = tokenizer.generatePlaceholder();
+    const result = tokenizer.assignPlaceholders(
+      `${a} ${b}`,
+      new Map([[a, 'BOB@example.com'], [b, 'amy@example.com']]),
+      [detection('EMAIL', 'BOB@example.com'), detection('EMAIL', 'amy@example.com')],
+      new Map([['[EMAIL_1]', 'bob@example.com'], ['[EMAIL_4]', 'cy@example.com']]),
+      typed
+    );
+    expect(result.text).toBe('[EMAIL_1] [EMAIL_5]');
+  });
+
+  it('should wrap opaque IDs in the configured prefix and suffix', () => {
+    const tokenizer = new Tokenizer();
+    const a = tokenizer.generatePlaceholder();
+    const result = tokenizer.assignPlaceholders(`Hi ${a}`, new Map([[a, 'Sarah']]), [], new Map(), {
+      style: 'opaque', prefix: '<<', suffix: '>>',
+    });
+    expect(result.text).toBe(`Hi <<${tokenizer.extractToken(a)}>>`);
+  });
+
+  it('should encrypt fpe categories and use the style for the rest', () => {
+    const tokenizer = new Tokenizer();
+    const a = tokenizer.generatePlaceholder();
+    const b = tokenizer.generatePlaceholder();
+    const key = Buffer.alloc(16, 7);
+    const result = tokenizer.assignPlaceholders(
+      `TFN ${a}, email ${b}`,
+      new Map([[a, '123 456 708'], [b, 'amy@example.com']]),
+      [detection('AU_TFN', '123 456 708'), detection('EMAIL', 'amy@example.com')],
+      new Map(),
+      { ...typed, fpe: { key, categories: ['au_tfn'] } }
+    );
+    const [ciphertext] = [...result.tokens.keys()];
+    expect(ciphertext).toMatch(/^\d{3} \d{3} \d{3}$/);
+    expect(ciphertext).toBe(encryptPreservingFormat('123 456 708', key, 'AU_TFN'));
+    expect(result.text).toBe(`TFN ${ciphertext}, email [EMAIL_1]`);
+  });
+
+  it('should apply category operators and keep one-way values out of the tokens', () => {
+    const tokenizer = new Tokenizer();
+    const [a, b, c] = [tokenizer.generatePlaceholder(), tokenizer.generatePlaceholder(), tokenizer.generatePlaceholder()];
+    const result = tokenizer.assignPlaceholders(
+      `Card ${a}, email ${b}, born ${c}`,
+      new Map([[a, '4532 0151 1283 0366'], [b, 'amy@corp.com'], [c, '03/04/1985']]),
+      [detection('CREDIT_CARD', '4532 0151 1283 0366'), detection('EMAIL', 'amy@corp.com'), detection('DATE_OF_BIRTH_AU', '03/04/1985')],
+      new Map(),
+      { ...typed, operators: { CREDIT_CARD: 'mask', EMAIL: 'keep-domain', 'DATE_OF_BIRTH_*': 'truncate' } }
+    );
+    expect(result.text).toBe('Card **** **** **** 0366, email [EMAIL_1]@corp.com, born 1985');
+    expect([...result.tokens]).toEqual([['[EMAIL_1]@corp.com', 'amy@corp.com']]);
+  });
+
+  it('should reject a surrogate inside or around another placeholder', () => {
+    vi.mocked(generateSurrogate)
+      .mockReturnValueOnce('Jordan')
+      .mockReturnValueOnce('Jordan Ashford Lee')
+      .mockReturnValueOnce('Alex Morgan');
+    const tokenizer = new Tokenizer();
+    const a = tokenizer.generatePlaceholder();
+    const result = tokenizer.assignPlaceholders(
+      `Hi ${a}`,
+      new Map([[a, 'Sarah Smith']]),
+      [detection('PERSON', 'Sarah Smith')],
+      new Map([['Jordan Ashford', 'Tom Jones']]),
+      { style: 'surrogate', prefix: '[', suffix: ']' }
+    );
+    expect(result.text).toBe('Hi Alex Morgan');
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { deriveSessionId, getConversationPrefix } from '../../src/core/rehydration/session-id.js';
+
+describe('deriveSessionId', () => {
+  it('should produce a UUID-shaped ID', () => {
+    const id = deriveSessionId('secret', 'sk-abc');
+    expect(id).toMatch(/^[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}$/);
+  });
+
+  it('should be stable for the same secret and parts', () => {
+    expect(deriveSessionId('secret', 'sk-abc')).toBe(deriveSessionId('secret', 'sk-abc'));
+  });
+
+  it('should differ for different parts', () => {
+    expect(deriveSessionId('secret', 'sk-abc')).not.toBe(deriveSessionId('secret', 'sk-abd'));
+  });
+
+  it('should differ for different secrets', () => {
+    expect(deriveSessionId('secret-1', 'sk-abc')).not.toBe(deriveSessionId('secret-2', 'sk-abc'));
+  });
+
+  it('should not collide when parts are split differently', () => {
+    expect(deriveSessionId('secret', 'ab', 'c')).not.toBe(deriveSessionId('secret', 'a', 'bc'));
+  });
+});
+
+describe('getConversationPrefix', () => {
+  it('should stay the same as the conversation grows', () => {
+    const first = [{ role: 'system', content: 'Be brief' }, { role: 'user', content: 'Hi, I am Sarah' }];
+    const later = [...first, { role: 'assistant', content: 'Hello Sarah' }, { role: 'user', content: 'Thanks' }];
+    expect(getConversationPrefix({ messages: first })).toBe(getConversationPrefix({ messages: later }));
+  });
+
+  it('should differ for a different opening message or system prompt', () => {
+    const messages = [{ role: 'user', content: 'Hi' }];
+    expect(getConversationPrefix({ messages })).not.toBe(getConversationPrefix({ messages: [{ role: 'user', content: 'Hey' }] }));
+    expect(getConversationPrefix({ system: 'A', messages })).not.toBe(getConversationPrefix({ system: 'B', messages }));
+  });
+
+  it('should read Gemini contents and Responses input', () => {
+    expect(getConversationPrefix({ contents: [{ role: 'user', parts: [{ text: 'Hi' }] }] })).not.toBeNull();
+    expect(getConversationPrefix({ instructions: 'Be brief', input: 'Hi' })).not.toBeNull();
+  });
+
+  it('should return null without a user message', () => {
+    expect(getConversationPrefix({ text: 'Hi' })).toBeNull();
+    expect(getConversationPrefix({ messages: [{ role: 'system', content: 'Be brief' }] })).toBeNull();
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect } from 'vitest';
+import {
+  StreamRehydrator,
+  TextRehydrator,
+  hydrateValue,
+  replaceTokens,
+} from '../../src/core/rehydration/stream-rehydrator.js';
+
+const TOKEN = 'a1b2c3d4e5f60718';
+const QUOTED = 'ffffeeeeddddcccc';
+const tokens = new Map([
+  [TOKEN, 'bob@example.com'],
+  [QUOTED, 'say "hi" \\ bye'],
+]);
+
+describe('replaceTokens / hydrateValue', () => {
+  it('should replace complete tokens', () => {
+    expect(replaceTokens(`mail ${TOKEN} now`, tokens)).toBe('mail bob@example.com now');
+  });
+
+  it('should JSON-escape originals inside serialized JSON fields', () => {
+    const hydrated = hydrateValue({ function: { arguments: JSON.stringify({ q: QUOTED }) } }, tokens);
+    expect(JSON.parse(hydrated.function.arguments)).toEqual({ q: 'say "hi" \\ bye' });
+  });
+
+  it('should not escape plain text fields', () => {
+    expect(hydrateValue({ content: QUOTED }, tokens)).toEqual({ content: 'say "hi" \\ bye' });
+  });
+
+  it('should replace word-like placeholders as whole words, longest first', () => {
+    const surrogates = new Map([['Alex', 'Sarah'], ['Jordan', 'Tom'], ['Jordan Ashford', 'Tom Smith']]);
+    expect(replaceTokens('Alexander met Jordan Ashford, then Jordan and Alex.', surrogates))
+      .toBe('Alexander met Tom Smith, then Tom and Sarah.');
+  });
+});
+
+describe('TextRehydrator', () => {
+  it('should hold back a partial token until it completes', () => {
+    const rehydrator = new TextRehydrator(tokens);
+    expect(rehydrator.push(`Hi ${TOKEN.slice(0, 5)}`)).toBe('Hi ');
+    expect(rehydrator.push(TOKEN.slice(5, 12))).toBe('');
+    expect(rehydrator.push(`${TOKEN.slice(12)}!`)).toBe('bob@example.com!');
+    expect(rehydrator.hasPending()).toBe(false);
+  });
+
+  it('should release text that stops matching a token', () => {
+    const rehydrator = new TextRehydrator(tokens);
+    expect(rehydrator.push('a a1')).toBe('a ');
+    expect(rehydrator.push('zz')).toBe('a1zz');
+  });
+
+  it('should hold back a whole word-like placeholder until the word ends', () => {
+    const rehydrator = new TextRehydrator(new Map([['Alex', 'Sarah']]));
+    expect(rehydrator.push('Hi Alex')).toBe('Hi ');
+    expect(rehydrator.push('ander and Alex')).toBe('Alexander and ');
+    expect(rehydrator.flush()).toBe('Sarah');
+  });
+
+  it('should flush an incomplete token as-is', () => {
+    const rehydrator = new TextRehydrator(tokens);
+    rehydrator.push(TOKEN.slice(0, 4));
+    expect(rehydrator.flush()).toBe(TOKEN.slice(0, 4));
+  });
+
+  it('should JSON-escape originals when configured', () => {
+    const rehydrator = new TextRehydrator(tokens, true);
+    const json = rehydrator.push(`{"q":"${QUOTED.slice(0, 3)}`) + rehydrator.push(`${QUOTED.slice(3)}"}`);
+    expect(JSON.parse(json)).toEqual({ q: 'say "hi" \\ bye' });
+  });
+});
+
+describe('StreamRehydrator', () => {
+  const openaiChunk = (delta: any, finish: string | null = null) => ({
+    id: 'c1', object: 'chat.completion.chunk', choices: [{ index: 0, delta, finish_reason: finish }],
+  });
+
+  it('should rehydrate a token split across OpenAI content deltas', () => {
+    const rehydrator = new StreamRehydrator('openai', tokens);
+    const first = rehydrator.process(openaiChunk({ content: `To ${TOKEN.slice(0, 8)}` }));
+    const second = rehydrator.process(openaiChunk({ content: TOKEN.slice(8) }));
+    expect(first.map(e => e.choices[0].delta.content)).toEqual(['To ']);
+    expect(second.map(e => e.choices[0].delta.content)).toEqual(['bob@example.com']);
+  });
+
+  it('should flush held-back text in a synthetic chunk before the finish chunk', () => {
+    const rehydrator = new StreamRehydrator('openai', tokens);
+    rehydrator.process(openaiChunk({ content: `x ${TOKEN.slice(0, 3)}` }));
+    const out = rehydrator.process(openaiChunk({}, 'stop'));
+    expect(out).toHaveLength(2);
+    expect(out[0].choices[0]).toEqual({ index: 0, delta: { content: TOKEN.slice(0, 3) }, finish_reason: null });
+    expect(out[1].choices[0].finish_reason).toBe('stop');
+  });
+
+  it('should append held-back text when the finish chunk carries content', () => {
+    const rehydrator = new StreamRehydrator('openai', tokens);
+    rehydrator.process(openaiChunk({ content: TOKEN.slice(0, 3) }));
+    const out = rehydrator.process(openaiChunk({ content: TOKEN.slice(3, 6) }, 'length'));
+    expect(out).toHaveLength(1);
+    expect(out[0].choices[0].delta.content).toBe(TOKEN.slice(0, 6));
+  });
+
+  it('should pass rehydrated text through the channel filter', () => {
+    const held: string[] = [];
+    const rehydrator = new StreamRehydrator('openai', tokens, () => ({
+      push: (text: string) => { held.push(text); return ''; },
+      flush: () => held.splice(0).join('').toUpperCase(),
+      hasPending: () => held.length > 0,
+    }));
+    const first = rehydrator.process(openaiChunk({ content: `To ${TOKEN}` }));
+    expect(first[0].choices[0].delta.content).toBe('');
+    const out = rehydrator.process(openaiChunk({}, 'stop'));
+    expect(out).toHaveLength(2);
+    expect(out[0].choices[0].delta.content).toBe('TO BOB@EXAMPLE.COM');
+  });
+
+  it('should rehydrate OpenAI tool call argument deltas with JSON escaping', () => {
+    const rehydrator = new StreamRehydrator('openai', tokens);
+    const call = (args: string) => openaiChunk({ tool_calls: [{ index: 0, function: { arguments: args } }] });
+    const parts = [
+      ...rehydrator.process(call(`{"q":"${QUOTED.slice(0, 10)}`)),
+      ...rehydrator.process(call(`${QUOTED.slice(10)}"}`)),
+      ...rehydrator.process(openaiChunk({}, 'tool_calls')),
+    ];
+    const args = parts.map(e => e.choices[0].delta.tool_calls?.[0].function.arguments ?? '').join('');
+    expect(JSON.parse(args)).toEqual({ q: 'say "hi" \\ bye' });
+  });
+
+  it('should flush Anthropic text at content_block_stop', () => {
+    const rehydrator = new StreamRehydrator('anthropic', tokens);
+    const delta = (text: string) => ({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } });
+    expect(rehydrator.process(delta(`Hi ${TOKEN.slice(0, 2)}`))[0].delta.text).toBe('Hi ');
+    const out = rehydrator.process({ type: 'content_block_stop', index: 0 });
+    expect(out).toEqual([delta(TOKEN.slice(0, 2)), { type: 'content_block_stop', index: 0 }]);
+  });
+
+  it('should rehydrate Anthropic input_json_delta across events', () => {
+    const rehydrator = new StreamRehydrator('anthropic', tokens);
+    const delta = (partial_json: string) => ({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json } });
+    const out = [
+      ...rehydrator.process(delta(`{"to":"${TOKEN.slice(0, 7)}`)),
+      ...rehydrator.process(delta(`${TOKEN.slice(7)}","note":"${QUOTED}"}`)),
+    ];
+    expect(JSON.parse(out.map(e => e.delta.partial_json).join(''))).toEqual({ to: 'bob@example.com', note: 'say "hi" \\ bye' });
+  });
+
+  it('should hydrate strings outside text deltas', () => {
+    const rehydrator = new StreamRehydrator('anthropic', tokens);
+    const out = rehydrator.process({ type: 'message_start', message: { content: [{ type: 'text', text: TOKEN }] } });
+    expect(out[0].message.content[0].text).toBe('bob@example.com');
+  });
+
+  it('should rehydrate Responses function call argument deltas', () => {
+    const rehydrator = new StreamRehydrator('responses', tokens);
+    const delta = (d: string) => ({ type: 'response.function_call_arguments.delta', item_id: 'fc_1', delta: d });
+    const out = [
+      ...rehydrator.process(delta(`{"q":"${QUOTED.slice(0, 5)}`)),
+      ...rehydrator.process({ type: 'response.function_call_arguments.done', item_id: 'fc_1', arguments: `{"q":"${QUOTED}"}` }),
+    ];
+    expect(out.map(e => e.type)).toEqual([
+      'response.function_call_arguments.delta',
+      'response.function_call_arguments.delta',
+      'response.function_call_arguments.done',
+    ]);
+    expect(out[1].delta).toBe(QUOTED.slice(0, 5));
+    expect(JSON.parse(out[2].arguments)).toEqual({ q: 'say "hi" \\ bye' });
+  });
+
+  it('should rehydrate Gemini text split across chunks', () => {
+    const rehydrator = new StreamRehydrator('gemini', tokens);
+    const chunk = (text: string, finishReason?: string) => ({
+      candidates: [{ index: 0, content: { role: 'model', parts: [{ text }] }, ...(finishReason ? { finishReason } : {}) }],
+    });
+    const out = [
+      ...rehydrator.process(chunk(`Email ${TOKEN.slice(0, 9)}`)),
+      ...rehydrator.process(chunk(`${TOKEN.slice(9)} today`, 'STOP')),
+    ];
+    expect(out.map(e => e.candidates[0].content.parts[0].text).join('')).toBe('Email bob@example.com today');
+  });
+
+  it('should rehydrate Ollama chat lines and flush on done', () => {
+    const rehydrator = new StreamRehydrator('ollama', tokens);
+    const line = (content: string, done = false) => ({ model: 'llama3', message: { role: 'assistant', content }, done });
+    const out = [
+      ...rehydrator.process(line(`Hi ${TOKEN.slice(0, 6)}`)),
+      ...rehydrator.process(line(TOKEN.slice(6, 10))),
+      ...rehydrator.process(line('', true)),
+    ];
+    expect(out.map(e => e.message.content)).toEqual(['Hi ', '', TOKEN.slice(0, 10)]);
+    expect(out[2].done).toBe(true);
+  });
+
+  it('should rehydrate Ollama generate responses', () => {
+    const rehydrator = new StreamRehydrator('ollama', tokens);
+    const out = [
+      ...rehydrator.process({ model: 'llama3', response: TOKEN.slice(0, 8), done: false }),
+      ...rehydrator.process({ model: 'llama3', response: `${TOKEN.slice(8)}.`, done: false }),
+    ];
+    expect(out.map(e => e.response).join('')).toBe('bob@example.com.');
+  });
+
+  it('should rehydrate Bedrock ConverseStream text and flush at contentBlockStop', () => {
+    const rehydrator = new StreamRehydrator('bedrock', tokens);
+    const delta = (text: string) => ({ contentBlockDelta: { contentBlockIndex: 0, delta: { text }, p: 'abc' } });
+    const out = [
+      ...rehydrator.process(delta(`Hi ${TOKEN.slice(0, 5)}`)),
+      ...rehydrator.process(delta(TOKEN.slice(5, 9))),
+      ...rehydrator.process({ contentBlockStop: { contentBlockIndex: 0 } }),
+    ];
+    expect(out.map(e => e.contentBlockDelta?.delta.text)).toEqual(['Hi ', '', TOKEN.slice(0, 9), undefined]);
+    expect(out[3]).toEqual({ contentBlockStop: { contentBlockIndex: 0 } });
+  });
+
+  it('should rehydrate Bedrock tool input deltas with JSON escaping', () => {
+    const rehydrator = new StreamRehydrator('bedrock', tokens);
+    const delta = (input: string) => ({ contentBlockDelta: { contentBlockIndex: 1, delta: { toolUse: { input } } } });
+    const out = [
+      ...rehydrator.process(delta(`{"q":"${QUOTED.slice(0, 6)}`)),
+      ...rehydrator.process(delta(`${QUOTED.slice(6)}"}`)),
+      ...rehydrator.process({ messageStop: { stopReason: 'tool_use' } }),
+    ];
+    const input = out.map(e => e.contentBlockDelta?.delta.toolUse.input ?? '').join('');
+    expect(JSON.parse(input)).toEqual({ q: 'say "hi" \\ bye' });
+  });
+
+  it('should release everything on end()', () => {
+    const rehydrator = new StreamRehydrator('responses', tokens);
+    rehydrator.process({ type: 'response.output_text.delta', item_id: 'msg_1', content_index: 0, delta: TOKEN.slice(0, 4) });
+    expect(rehydrator.end()).toEqual([
+      { type: 'response.output_text.delta', item_id: 'msg_1', content_index: 0, delta: TOKEN.slice(0, 4) },
+    ]);
+    expect(rehydrator.end()).toEqual([]);
+  });
+});
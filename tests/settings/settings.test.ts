@@ -25,6 +25,13 @@ describe('Settings (SQLite)', () => {
     expect(settings.tokenizePlaceholders).toBe(true);
     expect(settings.placeholderPrefix).toBe('\uE000');
     expect(settings.placeholderSuffix).toBe('\uE001');
+    expect(settings.placeholderStyle).toBe('opaque');
+    expect(settings.fpeCategories).toEqual([]);
+    expect(settings.categoryOperators).toEqual({});
+    expect(settings.blockCategories).toEqual([]);
+    expect(settings.auditMode).toBe(false);
+    expect(settings.egressScan).toBe('off');
+    expect(settings.conversationSessions).toBe(false);
   });
 
   it('should get a single setting', () => {
@@ -77,7 +84,7 @@ describe('Settings (SQLite)', () => {
 
   it('should return all default settings', () => {
     const settings = getAllSettings(db);
-    expect(Object.keys(settings)).toHaveLength(10);
+    expect(Object.keys(settings)).toHaveLength(17);
     expect(Object.keys(settings)).toContain('enableDictionary');
     expect(Object.keys(settings)).toContain('enableRegex');
     expect(Object.keys(settings)).toContain('enableNames');
@@ -88,6 +95,13 @@ describe('Settings (SQLite)', () => {
     expect(Object.keys(settings)).toContain('tokenizePlaceholders');
     expect(Object.keys(settings)).toContain('placeholderPrefix');
     expect(Object.keys(settings)).toContain('placeholderSuffix');
+    expect(Object.keys(settings)).toContain('placeholderStyle');
+    expect(Object.keys(settings)).toContain('fpeCategories');
+    expect(Object.keys(settings)).toContain('categoryOperators');
+    expect(Object.keys(settings)).toContain('blockCategories');
+    expect(Object.keys(settings)).toContain('auditMode');
+    expect(Object.keys(settings)).toContain('egressScan');
+    expect(Object.keys(settings)).toContain('conversationSessions');
   });
 
   it('should store complex JSON values', () => {
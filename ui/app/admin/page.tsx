@@ -38,10 +38,12 @@ interface RedactResult {
 
 interface RedactionLogEntry {
   timestamp: string;
-  source: 'api' | 'openai' | 'anthropic';
+  source: 'api' | 'openai' | 'anthropic' | 'azure' | 'gemini' | 'ollama' | 'bedrock';
   sessionId: string;
   redactedPreview: string;
   detections: { type: string; category: string; confidence: number }[];
+  blocked?: boolean;
+  audit?: boolean;
 }
 
 interface SettingsData {
@@ -55,12 +57,20 @@ interface SettingsData {
   tokenizePlaceholders: boolean;
   placeholderPrefix: string;
   placeholderSuffix: string;
+  placeholderStyle: 'opaque' | 'typed' | 'surrogate';
+  fpeCategories: string[];
+  blockCategories: string[];
+  auditMode: boolean;
+  egressScan: 'off' | 'annotate' | 'mask' | 'count';
+  conversationSessions: boolean;
   [key: string]: any;
 }
 
 interface DictionaryEntry {
   id: string;
   term: string;
+  replacement?: string;
+  reversible?: boolean;
   caseSensitive: boolean;
   wholeWord: boolean;
   enabled: boolean;
@@ -871,6 +881,12 @@ export default function AdminPanel() {
                           <span className={`px-1.5 py-0.5 rounded text-xs font-medium ${sourceColor(r.source)}`}>
                             {r.source}
                           </span>
+                          {r.blocked && (
+                            <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-red-100 text-red-700">blocked</span>
+                          )}
+                          {r.audit && (
+                            <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-700">audit</span>
+                          )}
                           <span className="text-xs text-gray-500 whitespace-nowrap">
                             {new Date(r.timestamp).toLocaleTimeString()}
                           </span>
@@ -1029,6 +1045,11 @@ export default function AdminPanel() {
                       <div className="flex-1">
                         <span className="text-sm font-medium">{entry.term}</span>
                         <div className="flex gap-2 mt-0.5">
+                          {entry.replacement && (
+                            <span className="text-xs bg-green-100 text-green-700 px-1.5 py-0.5 rounded">
+                              → {entry.replacement}{entry.reversible === false ? ' (one-way)' : ''}
+                            </span>
+                          )}
                           {entry.caseSensitive && (
                             <span className="text-xs bg-yellow-100 text-yellow-700 px-1.5 py-0.5 rounded">case-sensitive</span>
                           )}
@@ -1167,6 +1188,53 @@ export default function AdminPanel() {
                     </div>
                   </div>
 
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-700 mb-3">Policy</h3>
+                    <div className="space-y-3">
+                      <label className="flex items-center justify-between p-3 bg-gray-50 rounded">
+                        <div>
+                          <span className="text-sm font-medium">Audit Mode</span>
+                          <p className="text-xs text-gray-400">Record detections but forward requests unredacted</p>
+                        </div>
+                        <button
+                          onClick={() => updateSetting('auditMode', !settings.auditMode)}
+                          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                            settings.auditMode ? 'bg-blue-600' : 'bg-gray-300'
+                          }`}
+                        >
+                          <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                            settings.auditMode ? 'translate-x-6' : 'translate-x-1'
+                          }`} />
+                        </button>
+                      </label>
+                      <div className="p-3 bg-gray-50 rounded">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Block Categories</label>
+                        <input
+                          type="text"
+                          value={(settings.blockCategories || []).join(', ')}
+                          onChange={(e) => updateSetting('blockCategories', e.target.value.split(',').map(c => c.trim().toUpperCase()))}
+                          className="w-full px-3 py-2 border rounded text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="CREDIT_CARD, SSN_US, UK_NHS"
+                        />
+                        <p className="text-xs text-gray-400 mt-1">Requests containing these dictionary or regex categories are rejected instead of redacted</p>
+                      </div>
+                      <div className="p-3 bg-gray-50 rounded">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Response Egress Scan</label>
+                        <select
+                          value={settings.egressScan || 'off'}
+                          onChange={(e) => updateSetting('egressScan', e.target.value)}
+                          className="w-full px-3 py-2 border rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                        >
+                          <option value="off">Off</option>
+                          <option value="count">Count only</option>
+                          <option value="annotate">Annotate</option>
+                          <option value="mask">Mask</option>
+                        </select>
+                        <p className="text-xs text-gray-400 mt-1">Check LLM responses for PII that was not in the request</p>
+                      </div>
+                    </div>
+                  </div>
+
                   <div>
                     <h3 className="text-sm font-semibold text-gray-700 mb-3">Local AI Configuration</h3>
                     <div className="space-y-3">
@@ -1205,6 +1273,22 @@ export default function AdminPanel() {
                   <div>
                     <h3 className="text-sm font-semibold text-gray-700 mb-3">Tokenization</h3>
                     <div className="space-y-3">
+                      <label className="flex items-center justify-between p-3 bg-gray-50 rounded">
+                        <div>
+                          <span className="text-sm font-medium">Conversation Sessions</span>
+                          <p className="text-xs text-gray-400">Share one session across turns of a chat when no session header is sent</p>
+                        </div>
+                        <button
+                          onClick={() => updateSetting('conversationSessions', !settings.conversationSessions)}
+                          className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                            settings.conversationSessions ? 'bg-blue-600' : 'bg-gray-300'
+                          }`}
+                        >
+                          <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                            settings.conversationSessions ? 'translate-x-6' : 'translate-x-1'
+                          }`} />
+                        </button>
+                      </label>
                       <label className="flex items-center justify-between p-3 bg-gray-50 rounded">
                         <span className="text-sm font-medium">Tokenize Placeholders</span>
                         <button
@@ -1218,6 +1302,30 @@ export default function AdminPanel() {
                           }`} />
                         </button>
                       </label>
+                      <div className="p-3 bg-gray-50 rounded">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Placeholder Style</label>
+                        <select
+                          value={settings.placeholderStyle || 'opaque'}
+                          onChange={(e) => updateSetting('placeholderStyle', e.target.value)}
+                          className="w-full px-3 py-2 border rounded text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+                        >
+                          <option value="opaque">Opaque ID</option>
+                          <option value="typed">Typed (e.g. [PERSON_1])</option>
+                          <option value="surrogate">Surrogate (realistic fake values)</option>
+                        </select>
+                        <p className="text-xs text-gray-400 mt-1">Typed placeholders show the category and need a visible prefix and suffix; the invisible defaults become [ and ] on save</p>
+                      </div>
+                      <div className="p-3 bg-gray-50 rounded">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Format-Preserving Encryption</label>
+                        <input
+                          type="text"
+                          value={(settings.fpeCategories || []).join(', ')}
+                          onChange={(e) => updateSetting('fpeCategories', e.target.value.split(',').map(c => c.trim().toUpperCase()))}
+                          className="w-full px-3 py-2 border rounded text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="AU_TFN, NZ_IRD, SSN_US, IBAN"
+                        />
+                        <p className="text-xs text-gray-400 mt-1">Regex categories encrypted in place with FPE_KEY instead of replaced by a placeholder</p>
+                      </div>
                       <div className="grid grid-cols-2 gap-3">
                         <div className="p-3 bg-gray-50 rounded">
                           <label className="block text-sm font-medium text-gray-700 mb-1">Prefix</label>